@@ -1,7 +1,8 @@
-import { promises as fs, MakeDirectoryOptions, RmDirOptions } from 'fs';
+import { promises as fs, createReadStream, MakeDirectoryOptions, RmDirOptions } from 'fs';
+import { createInterface } from 'readline';
 
 const isErrnoExceptionWithCode = (e: unknown): e is NodeJS.ErrnoException => {
-    if ((e as NodeJS.ErrnoException).code !== undefined) {
+    if ((e as NodeJS.ErrnoException).code === undefined) {
         return false;
     }
     return true;
@@ -63,3 +64,111 @@ export async function createDirectoryIfNeeded(path: string): Promise<void> {
         throw e;
     }
 }
+
+// Returns null if the file does not exist.
+export async function readFileIfExists(path: string): Promise<string | null> {
+    try {
+        return await fs.readFile(path, 'utf8');
+    } catch (e) {
+        if (isErrnoExceptionWithCode(e)) {
+            if (e.code === 'ENOENT') {
+                return null;
+            }
+        }
+
+        console.log(`Error reading file: ${JSON.stringify(e)}`);
+        throw e;
+    }
+}
+
+// Returns null if the file does not exist. The lines are read as they are iterated, so the file is never read whole.
+export async function readLinesIfExists(path: string): Promise<AsyncIterable<string> | null> {
+    const stream = createReadStream(path, 'utf8');
+    try {
+        await new Promise((resolve, reject) => {
+            stream.once('open', resolve);
+            stream.once('error', reject);
+        });
+    } catch (e) {
+        if (isErrnoExceptionWithCode(e)) {
+            if (e.code === 'ENOENT') {
+                return null;
+            }
+        }
+
+        console.log(`Error reading file: ${JSON.stringify(e)}`);
+        throw e;
+    }
+
+    return createInterface({ input: stream, crlfDelay: Infinity });
+}
+
+// Returns null if the file does not exist.
+export async function readBinaryFileIfExists(path: string): Promise<Buffer | null> {
+    try {
+        return await fs.readFile(path);
+    } catch (e) {
+        if (isErrnoExceptionWithCode(e)) {
+            if (e.code === 'ENOENT') {
+                return null;
+            }
+        }
+
+        console.log(`Error reading file: ${JSON.stringify(e)}`);
+        throw e;
+    }
+}
+
+// Writes to a temporary file and renames it, so the file has either the old or the new content.
+export async function replaceFile(path: string, content: string | Buffer): Promise<void> {
+    const tmpPath = `${path}.tmp`;
+    try {
+        await fs.writeFile(tmpPath, content, 'utf8');
+        await fs.rename(tmpPath, path);
+    } catch (e) {
+        console.log(`Error replacing file: ${JSON.stringify(e)}`);
+        throw e;
+    }
+}
+
+export async function appendToFile(path: string, content: string): Promise<void> {
+    try {
+        await fs.appendFile(path, content, 'utf8');
+    } catch (e) {
+        console.log(`Error appending to file: ${JSON.stringify(e)}`);
+        throw e;
+    }
+}
+
+// Returns false if there is no file at from.
+export async function renameIfExists(from: string, to: string): Promise<boolean> {
+    try {
+        await fs.rename(from, to);
+        return true;
+    } catch (e) {
+        if (isErrnoExceptionWithCode(e)) {
+            if (e.code === 'ENOENT') {
+                return false;
+            }
+        }
+
+        console.log(`Error renaming file: ${JSON.stringify(e)}`);
+        throw e;
+    }
+}
+
+// Returns an empty list if the directory does not exist.
+export async function readDirectoryIfExists(path: string): Promise<string[]> {
+    try {
+        return await fs.readdir(path);
+    } catch (e) {
+        if (isErrnoExceptionWithCode(e)) {
+            if (e.code === 'ENOENT') {
+                return [];
+            }
+        }
+
+        console.log(`Error reading directory: ${JSON.stringify(e)}`);
+        throw e;
+    }
+}
@@ -0,0 +1,47 @@
+/*
+    Messages waiting to be sent by a sender, oldest first.
+    The head is only removed after it has been sent, so a failed send leaves the buffer unchanged.
+*/
+export interface IPendingBuffer<MessageType> {
+    size(): number;
+    bytes(): number;
+    hasRoomFor(content: MessageType): boolean;
+    push(content: MessageType): Promise<void>;
+    peek(): MessageType | undefined;
+    shift(): Promise<void>;
+    clear(): Promise<void>;
+}
+
+export const messageBytes = (content: any): number => Buffer.byteLength(JSON.stringify(content));
+
+// sizeOf: bytes counted against maxBytes for each message. Defaults to the size of its JSON.
+export function createMemoryBuffer<MessageType>(
+    maxMessages: number,
+    maxBytes: number,
+    sizeOf: (content: MessageType) => number = messageBytes
+): IPendingBuffer<MessageType> {
+    const messages: { content: MessageType; bytes: number }[] = [];
+    let totalBytes = 0;
+
+    return {
+        size: () => messages.length,
+        bytes: () => totalBytes,
+        hasRoomFor: (content: MessageType) => messages.length < maxMessages && totalBytes + sizeOf(content) <= maxBytes,
+        push: async (content: MessageType) => {
+            const bytes = sizeOf(content);
+            messages.push({ content, bytes });
+            totalBytes += bytes;
+        },
+        peek: () => (messages.length > 0 ? messages[0].content : undefined),
+        shift: async () => {
+            const head = messages.shift();
+            if (head) {
+                totalBytes -= head.bytes;
+            }
+        },
+        clear: async () => {
+            messages.splice(0, messages.length);
+            totalBytes = 0;
+        },
+    };
+}
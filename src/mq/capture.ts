@@ -0,0 +1,242 @@
+import path from 'path';
+import { logger } from '@bisect/bisect-core-ts';
+import {
+    appendToFile,
+    createDirectoryIfNeeded,
+    readDirectoryIfExists,
+    readLinesIfExists,
+    renameIfExists,
+    unlinkIfExists,
+} from '../fs';
+import { ICodec } from './codec';
+import { createJournalWriter, journalEntries, toJournalLine } from './journal';
+import { createQueueSender, createExchangeSender } from './send';
+import * as types from './types';
+
+const defaultMaxFileBytes = 64 * 1024 * 1024;
+const defaultMaxFiles = 5;
+
+const baseName = (name: string) => name.replace(/[^A-Za-z0-9._-]/g, '_');
+
+// index 0 is the current file, 1 the most recently rotated one.
+const captureFileName = (name: string, index: number) =>
+    index === 0 ? `${baseName(name)}.jsonl` : `${baseName(name)}.${index}.jsonl`;
+
+const toCapturedMessage = (receiver: string, envelope: types.IEnvelope): types.ICapturedMessage => ({
+    capturedAt: new Date().toISOString(),
+    receiver,
+    exchange: envelope.exchange,
+    routingKey: envelope.routingKey,
+    redelivered: envelope.redelivered,
+    headers: envelope.headers,
+    messageId: envelope.messageId,
+    correlationId: envelope.correlationId,
+    timestamp: envelope.timestamp,
+    type: envelope.type,
+    contentType: envelope.contentType,
+    priority: envelope.priority,
+    replyTo: envelope.replyTo,
+    appId: envelope.appId,
+    content: envelope.content.toString('base64'),
+});
+
+/*
+    Appends the messages of a receiver to its capture file, rotating it as described in ICaptureOptions.
+    Capturing never delays or fails the handling of a message: errors are logged and the message is not captured.
+*/
+export function createCaptureWriter(name: string, options: types.ICaptureOptions) {
+    const maxFileBytes = options.maxFileBytes ?? defaultMaxFileBytes;
+    const maxFiles = Math.max(options.maxFiles ?? defaultMaxFiles, 1);
+    const filePath = (index: number) => path.join(options.directory, captureFileName(name, index));
+
+    let opened = false;
+    let bytes = 0;
+
+    const rotate = async () => {
+        await unlinkIfExists(filePath(maxFiles - 1));
+        for (let index = maxFiles - 2; index >= 0; index--) {
+            await renameIfExists(filePath(index), filePath(index + 1));
+        }
+        bytes = 0;
+    };
+
+    // Writes are serialized, so lines are written in delivery order.
+    const journal = createJournalWriter(filePath(0));
+
+    const writeLine = async (line: string) => {
+        if (!opened) {
+            await createDirectoryIfNeeded(options.directory);
+            await rotate();
+            opened = true;
+        }
+
+        const lineBytes = Buffer.byteLength(line);
+        if (bytes > 0 && bytes + lineBytes > maxFileBytes) {
+            await rotate();
+        }
+
+        await appendToFile(filePath(0), line);
+        bytes += lineBytes;
+    };
+
+    const capture = (envelope: types.IEnvelope) => {
+        const line = toJournalLine(toCapturedMessage(name, envelope));
+        journal
+            .write(() => writeLine(line))
+            .catch((err) => logger.error(`Error capturing message from ${name}: ${err}`));
+    };
+
+    // Resolves once the messages captured so far are written.
+    const flush = () => journal.flush();
+
+    return { capture, flush };
+}
+
+// The capture files of a receiver, oldest first, which is the order in which to replay them.
+export async function captureFiles(directory: string, name: string): Promise<string[]> {
+    const pattern = new RegExp(`^${baseName(name).replace(/\./g, '\\.')}(?:\\.(\\d+))?\\.jsonl$`);
+    const indexes: number[] = [];
+
+    (await readDirectoryIfExists(directory)).forEach((file: string) => {
+        const match = pattern.exec(file);
+        if (match) {
+            indexes.push(match[1] === undefined ? 0 : parseInt(match[1], 10));
+        }
+    });
+
+    return indexes.sort((a, b) => b - a).map((index) => path.join(directory, captureFileName(name, index)));
+}
+
+// Yields the messages as the files are read, so that capture files are never loaded whole.
+async function* readCapturedMessages(
+    paths: string | string[],
+    summary: types.IReplaySummary
+): AsyncGenerator<types.ICapturedMessage> {
+    for (const filePath of typeof paths === 'string' ? [paths] : paths) {
+        const lines = await readLinesIfExists(filePath);
+        if (lines === null) {
+            throw new Error(`Capture file not found: ${filePath}`);
+        }
+
+        const entries = journalEntries<types.ICapturedMessage>(lines, (lineNumber, err) => {
+            logger.error(`[Replay] ignoring invalid line ${lineNumber} of ${filePath}: ${err}`);
+            summary.invalid += 1;
+        });
+        for await (const { entry } of entries) {
+            yield entry;
+        }
+    }
+}
+
+/*
+    Sends the captured content as it is. Messages captured without a content type are sent as JSON,
+    which is how receivers decode them by default.
+*/
+const replayCodec: ICodec = {
+    contentType: 'application/json',
+    encode: (content: Buffer) => content,
+    decode: (content: Buffer) => content,
+};
+
+const toMessageProperties = (message: types.ICapturedMessage): types.IMessageProperties => ({
+    headers: message.headers,
+    messageId: message.messageId,
+    correlationId: message.correlationId,
+    timestamp: message.timestamp,
+    type: message.type,
+    contentType: message.contentType,
+    priority: message.priority,
+});
+
+type Sender<MessageType> = {
+    send: (m: MessageType) => Promise<void>;
+    close: (options?: types.ICloseOptions) => Promise<void>;
+};
+
+// The sender is created with the given options, which count the messages it drops.
+async function replay<MessageType>(
+    createSender: (senderOptions: types.ISenderOptions) => Sender<MessageType>,
+    paths: string | string[],
+    options: types.IReplayOptions,
+    toMessage: (message: types.ICapturedMessage, content: Buffer) => MessageType
+): Promise<types.IReplaySummary> {
+    const summary: types.IReplaySummary = { sent: 0, skipped: 0, invalid: 0, dropped: 0 };
+    const overflow = options.sender?.overflow;
+    const sender = createSender({
+        ...options.sender,
+        codec: replayCodec,
+        overflow: {
+            ...overflow,
+            onDropped: (content, reason) => {
+                summary.dropped += 1;
+                overflow?.onDropped?.(content, reason);
+            },
+        },
+    });
+    const intervalMs = options.ratePerSec ? 1000 / options.ratePerSec : 0;
+    const start = Date.now();
+    let attempted = 0;
+
+    try {
+        for await (const message of readCapturedMessages(paths, summary)) {
+            if (options.filter && !options.filter(message)) {
+                summary.skipped += 1;
+                continue;
+            }
+
+            const delayMs = start + attempted * intervalMs - Date.now();
+            if (delayMs > 0) {
+                await new Promise((resolve) => setTimeout(resolve, delayMs));
+            }
+
+            await sender.send(toMessage(message, Buffer.from(message.content, 'base64')));
+            attempted += 1;
+        }
+    } finally {
+        await sender.close();
+    }
+
+    // Messages can be dropped after send resolves, while buffered, so the drops are only known once closed.
+    summary.sent = attempted - summary.dropped;
+    logger.info(
+        `[Replay] sent ${summary.sent} messages, skipped ${summary.skipped}, ${summary.invalid} invalid, ` +
+            `${summary.dropped} dropped`
+    );
+    return summary;
+}
+
+// Sends the captured messages to the queue, in the order in which they were captured.
+export const replayToQueue = (
+    brokerUrl: types.BrokerAddress,
+    queue: types.IQueueInfo,
+    paths: string | string[],
+    options: types.IReplayOptions = {}
+) =>
+    replay(
+        (senderOptions) => createQueueSender(brokerUrl, queue, senderOptions),
+        paths,
+        options,
+        (message, content): types.AnyQueueMessage => ({
+            ...toMessageProperties(message),
+            msg: content,
+            persistent: options.persistent ?? true,
+        })
+    );
+
+// Same as replayToQueue, publishing each message with its captured routing key.
+export const replayToExchange = (
+    brokerUrl: types.BrokerAddress,
+    exchange: types.IExchangeInfo,
+    paths: string | string[],
+    options: types.IReplayOptions = {}
+) =>
+    replay(
+        (senderOptions) => createExchangeSender(brokerUrl, exchange, senderOptions),
+        paths,
+        options,
+        (message, content): types.ExchangeMessage => ({
+            ...toMessageProperties(message),
+            key: message.routingKey,
+            msg: content,
+        })
+    );
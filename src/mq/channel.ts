@@ -0,0 +1,29 @@
+import * as types from './types';
+
+/*
+    A channel is declared once and shared by the code that sends and the code that receives, so that both use
+    the same target and check payloads with the same validator.
+*/
+export const defineQueueChannel = <Payload>(
+    name: string,
+    queue: types.IQueueInfo,
+    validate: types.PayloadValidator<Payload>
+): types.IQueueChannel<Payload> => ({
+    type: 'queue',
+    name,
+    queue,
+    validate,
+});
+
+export const defineExchangeChannel = <Payload>(
+    name: string,
+    exchange: types.IExchangeInfo,
+    validate: types.PayloadValidator<Payload>,
+    routingKey: string | ((payload: Payload) => string) = ''
+): types.IExchangeChannel<Payload> => ({
+    type: 'exchange',
+    name,
+    exchange,
+    routingKey,
+    validate,
+});
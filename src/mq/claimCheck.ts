@@ -0,0 +1,81 @@
+import path from 'path';
+import { randomBytes } from 'crypto';
+import { Options } from 'amqplib';
+import { logger } from '@bisect/bisect-core-ts';
+import { createDirectoryIfNeeded, readBinaryFileIfExists, replaceFile, unlinkIfExists } from '../fs';
+import * as types from './types';
+
+// Set, instead of the content, on the messages whose payload is in the store.
+export const claimCheckHeader = 'x-claim-check';
+
+export const DEFAULT_CLAIM_CHECK_THRESHOLD_BYTES = 1024 * 1024;
+
+const referenceFormat = /^[0-9a-f]{32}$/;
+
+// References come from message headers, so they are checked before being used as file names.
+const checkReference = (reference: string) => {
+    if (!referenceFormat.test(reference)) {
+        throw new Error(`Invalid claim check reference: ${reference}`);
+    }
+};
+
+/*
+    One file per payload in directory, which can be shared by the senders and receivers of several hosts.
+    Payloads are written to a temporary file and renamed, so receivers never read a partial payload.
+*/
+export function createDirectoryPayloadStore(directory: string): types.IPayloadStore {
+    const put = async (content: Buffer) => {
+        await createDirectoryIfNeeded(directory);
+
+        const reference = randomBytes(16).toString('hex');
+        await replaceFile(path.join(directory, reference), content);
+        return reference;
+    };
+
+    // Invalid references are never in the store.
+    const get = async (reference: string) =>
+        referenceFormat.test(reference) ? readBinaryFileIfExists(path.join(directory, reference)) : null;
+
+    const remove = async (reference: string) => {
+        checkReference(reference);
+        await unlinkIfExists(path.join(directory, reference));
+    };
+
+    return { put, get, remove };
+}
+
+type Publish = (exchange: string, key: string, content: Buffer, options?: Options.Publish) => Promise<void>;
+
+// Payloads over the threshold are put in the store, and published as an empty content with their reference.
+export const withClaimCheck = (publish: Publish, options: types.IClaimCheckOptions): Publish => {
+    const thresholdBytes = options.thresholdBytes ?? DEFAULT_CLAIM_CHECK_THRESHOLD_BYTES;
+
+    return async (exchange, key, content, publishOptions = {}) => {
+        if (content.length <= thresholdBytes) {
+            return publish(exchange, key, content, publishOptions);
+        }
+
+        const reference = await options.store.put(content);
+        try {
+            await publish(exchange, key, Buffer.alloc(0), {
+                ...publishOptions,
+                headers: { ...publishOptions.headers, [claimCheckHeader]: reference },
+            });
+        } catch (err) {
+            // The message is published again with a new reference, if it is retried.
+            removePayload(options.store, reference);
+            throw err;
+        }
+    };
+};
+
+// Undefined for messages that carry their payload.
+export const claimCheckReference = (headers: Record<string, any>): string | undefined => {
+    const reference = headers[claimCheckHeader];
+    return typeof reference === 'string' ? reference : undefined;
+};
+
+// Failing to remove a payload only leaves a file behind, so the error is logged.
+export const removePayload = (store: types.IPayloadStore, reference: string) => {
+    store.remove(reference).catch((err) => logger.error(`Error removing claim check payload ${reference}: ${err}`));
+};
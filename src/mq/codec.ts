@@ -0,0 +1,258 @@
+export interface ICodec {
+    readonly contentType: string; // Set on the messages it encodes, and used to find the codec to decode them
+    encode(value: any): Buffer;
+    decode(content: Buffer): any;
+}
+
+export const jsonCodec: ICodec = {
+    contentType: 'application/json',
+    encode: (value: any) => Buffer.from(JSON.stringify(value)),
+    decode: (content: Buffer) => JSON.parse(content.toString('utf8')),
+};
+
+export const textCodec: ICodec = {
+    contentType: 'text/plain; charset=utf-8',
+    encode: (value: any) => Buffer.from(`${value}`, 'utf8'),
+    decode: (content: Buffer) => content.toString('utf8'),
+};
+
+// Sends Buffers as they are, and delivers the content without decoding it.
+export const bufferCodec: ICodec = {
+    contentType: 'application/octet-stream',
+    encode: (value: any) => {
+        if (!Buffer.isBuffer(value)) {
+            throw new Error('bufferCodec can only encode Buffers');
+        }
+        return value;
+    },
+    decode: (content: Buffer) => content,
+};
+
+/*
+    MessagePack encoding of nil, booleans, numbers, strings, Buffers (as bin), arrays and maps.
+    Integers outside the 32-bit range are encoded as float64. Extension types are not supported.
+*/
+function msgpackEncode(value: any, chunks: Buffer[]): void {
+    const header = (bytes: number[]) => chunks.push(Buffer.from(bytes));
+
+    const withLength = (length: number, fix: number | null, fixMax: number, codes: [number, number, number]) => {
+        if (fix !== null && length <= fixMax) {
+            header([fix | length]);
+        } else if (length <= 0xff && codes[0] !== 0) {
+            header([codes[0], length]);
+        } else if (length <= 0xffff) {
+            header([codes[1], length >> 8, length & 0xff]);
+        } else {
+            const b = Buffer.alloc(5);
+            b[0] = codes[2];
+            b.writeUInt32BE(length, 1);
+            chunks.push(b);
+        }
+    };
+
+    if (value === null || value === undefined) {
+        header([0xc0]);
+    } else if (typeof value === 'boolean') {
+        header([value ? 0xc3 : 0xc2]);
+    } else if (typeof value === 'number') {
+        if (Number.isInteger(value) && value >= 0 && value <= 0xffffffff) {
+            if (value < 0x80) {
+                header([value]);
+            } else if (value <= 0xff) {
+                header([0xcc, value]);
+            } else if (value <= 0xffff) {
+                header([0xcd, value >> 8, value & 0xff]);
+            } else {
+                const b = Buffer.alloc(5);
+                b[0] = 0xce;
+                b.writeUInt32BE(value, 1);
+                chunks.push(b);
+            }
+        } else if (Number.isInteger(value) && value < 0 && value >= -0x80000000) {
+            if (value >= -32) {
+                header([value & 0xff]);
+            } else if (value >= -0x80) {
+                const b = Buffer.alloc(2);
+                b[0] = 0xd0;
+                b.writeInt8(value, 1);
+                chunks.push(b);
+            } else if (value >= -0x8000) {
+                const b = Buffer.alloc(3);
+                b[0] = 0xd1;
+                b.writeInt16BE(value, 1);
+                chunks.push(b);
+            } else {
+                const b = Buffer.alloc(5);
+                b[0] = 0xd2;
+                b.writeInt32BE(value, 1);
+                chunks.push(b);
+            }
+        } else {
+            const b = Buffer.alloc(9);
+            b[0] = 0xcb;
+            b.writeDoubleBE(value, 1);
+            chunks.push(b);
+        }
+    } else if (typeof value === 'string') {
+        const bytes = Buffer.from(value, 'utf8');
+        withLength(bytes.length, 0xa0, 31, [0xd9, 0xda, 0xdb]);
+        chunks.push(bytes);
+    } else if (Buffer.isBuffer(value)) {
+        withLength(value.length, null, 0, [0xc4, 0xc5, 0xc6]);
+        chunks.push(value);
+    } else if (Array.isArray(value)) {
+        withLength(value.length, 0x90, 15, [0, 0xdc, 0xdd]);
+        value.forEach((item) => msgpackEncode(item, chunks));
+    } else if (typeof value === 'object') {
+        const keys = Object.keys(value).filter((key) => value[key] !== undefined);
+        withLength(keys.length, 0x80, 15, [0, 0xde, 0xdf]);
+        keys.forEach((key) => {
+            msgpackEncode(key, chunks);
+            msgpackEncode(value[key], chunks);
+        });
+    } else {
+        throw new Error(`msgpackCodec cannot encode values of type ${typeof value}`);
+    }
+}
+
+function msgpackDecode(content: Buffer): any {
+    let offset = 0;
+
+    const take = (length: number): Buffer => {
+        if (offset + length > content.length) {
+            throw new Error('msgpackCodec: unexpected end of data');
+        }
+        const bytes = content.slice(offset, offset + length);
+        offset += length;
+        return bytes;
+    };
+
+    const readArray = (length: number): any[] => {
+        const result: any[] = [];
+        for (let i = 0; i < length; i++) {
+            result.push(read());
+        }
+        return result;
+    };
+
+    const readMap = (length: number): Record<string, any> => {
+        const result: Record<string, any> = {};
+        for (let i = 0; i < length; i++) {
+            const key = read();
+            result[`${key}`] = read();
+        }
+        return result;
+    };
+
+    const readString = (length: number) => take(length).toString('utf8');
+
+    const read = (): any => {
+        const code = take(1)[0];
+
+        if (code <= 0x7f) return code;
+        if (code >= 0xe0) return code - 0x100;
+        if ((code & 0xe0) === 0xa0) return readString(code & 0x1f);
+        if ((code & 0xf0) === 0x90) return readArray(code & 0x0f);
+        if ((code & 0xf0) === 0x80) return readMap(code & 0x0f);
+
+        switch (code) {
+            case 0xc0:
+                return null;
+            case 0xc2:
+                return false;
+            case 0xc3:
+                return true;
+            case 0xc4:
+                return Buffer.from(take(take(1).readUInt8(0)));
+            case 0xc5:
+                return Buffer.from(take(take(2).readUInt16BE(0)));
+            case 0xc6:
+                return Buffer.from(take(take(4).readUInt32BE(0)));
+            case 0xca:
+                return take(4).readFloatBE(0);
+            case 0xcb:
+                return take(8).readDoubleBE(0);
+            case 0xcc:
+                return take(1).readUInt8(0);
+            case 0xcd:
+                return take(2).readUInt16BE(0);
+            case 0xce:
+                return take(4).readUInt32BE(0);
+            case 0xcf: {
+                const b = take(8);
+                return b.readUInt32BE(0) * 0x100000000 + b.readUInt32BE(4);
+            }
+            case 0xd0:
+                return take(1).readInt8(0);
+            case 0xd1:
+                return take(2).readInt16BE(0);
+            case 0xd2:
+                return take(4).readInt32BE(0);
+            case 0xd3: {
+                const b = take(8);
+                return b.readInt32BE(0) * 0x100000000 + b.readUInt32BE(4);
+            }
+            case 0xd9:
+                return readString(take(1).readUInt8(0));
+            case 0xda:
+                return readString(take(2).readUInt16BE(0));
+            case 0xdb:
+                return readString(take(4).readUInt32BE(0));
+            case 0xdc:
+                return readArray(take(2).readUInt16BE(0));
+            case 0xdd:
+                return readArray(take(4).readUInt32BE(0));
+            case 0xde:
+                return readMap(take(2).readUInt16BE(0));
+            case 0xdf:
+                return readMap(take(4).readUInt32BE(0));
+            default:
+                throw new Error(`msgpackCodec: unsupported type 0x${code.toString(16)}`);
+        }
+    };
+
+    const value = read();
+    if (offset !== content.length) {
+        throw new Error('msgpackCodec: unexpected data after the value');
+    }
+    return value;
+}
+
+export const msgpackCodec: ICodec = {
+    contentType: 'application/msgpack',
+    encode: (value: any) => {
+        const chunks: Buffer[] = [];
+        msgpackEncode(value, chunks);
+        return Buffer.concat(chunks);
+    },
+    decode: msgpackDecode,
+};
+
+const mediaType = (contentType: string) => contentType.split(';')[0].trim().toLowerCase();
+
+const codecs = new Map<string, ICodec>();
+
+// Makes the codec available to decode received messages with its content type.
+export const registerCodec = (codec: ICodec) => {
+    codecs.set(mediaType(codec.contentType), codec);
+};
+
+[jsonCodec, textCodec, bufferCodec, msgpackCodec].forEach(registerCodec);
+
+export const findCodec = (contentType: string): ICodec | undefined => codecs.get(mediaType(contentType));
+
+/*
+    Messages without a content type were sent before codecs existed, or by other clients, and are decoded with
+    the fallback codec, which is JSON unless the receiver sets another one.
+*/
+export function decodeContent(content: Buffer, contentType: string | undefined, fallback: ICodec = jsonCodec): any {
+    if (!contentType) {
+        return fallback.decode(content);
+    }
+
+    const codec = findCodec(contentType);
+    if (!codec) {
+        throw new Error(`No codec registered for content type ${contentType}`);
+    }
+    return codec.decode(content);
+}
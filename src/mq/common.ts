@@ -1,24 +1,58 @@
-import amqp from 'amqplib';
 import { logger } from '@bisect/bisect-core-ts';
+import { openConnection, acquireSharedConnection } from './connectionManager';
+import { ITransportChannel, ITransportConnection, getDefaultTransport } from './transport';
+import { ReconnectionPolicy, defaultReconnectionPolicy, createBackoffTimer } from './reconnect';
+import { assertTopology } from './topology';
+import * as types from './types';
 
-export type ChannelErrorCallback = () => void;
+export type ChannelErrorCallback = (reason?: string) => void;
 
-export async function setupChannel(brokerUrl: string, onChannelErrorCallback?: ChannelErrorCallback) {
-    if (!brokerUrl) {
+type ChannelFactory<ChannelType extends ITransportChannel> = (
+    connection: ITransportConnection
+) => PromiseLike<ChannelType>;
+
+async function doSetupChannel<ChannelType extends ITransportChannel>(
+    brokerUrl: types.BrokerAddress,
+    channelFactory: ChannelFactory<ChannelType>,
+    onChannelErrorCallback: ChannelErrorCallback | undefined,
+    options: types.IEndpointOptions
+) {
+    if (!brokerUrl || (typeof brokerUrl !== 'string' && brokerUrl.hosts.length === 0)) {
         const message = 'AMQP broker URL not specified';
         logger.error(message);
         throw new Error(message);
     }
 
-    logger.info(`[AMQP] connecting to ${brokerUrl}`);
+    const transport = options.transport || getDefaultTransport();
+    const { connection, release } = options.sharedConnection
+        ? await acquireSharedConnection(transport, brokerUrl)
+        : await openConnection(transport, brokerUrl);
 
-    const connection = await amqp.connect(brokerUrl);
-    const channel = await connection.createChannel();
+    let channel: ChannelType;
+    try {
+        channel = await channelFactory(connection);
+    } catch (err) {
+        release();
+        throw err;
+    }
+
+    if (options.topology) {
+        try {
+            await assertTopology(channel, options.topology);
+        } catch (err) {
+            logger.error(`[AMQP] error asserting topology: ${err}`);
+            Promise.resolve()
+                .then(() => channel.close())
+                .then(undefined, () => undefined);
+            release();
+            throw err;
+        }
+    }
 
     const callCallback = (err: any) => {
         logger.error(`[AMQP] connection error: ${err}`);
         if (onChannelErrorCallback) {
-            onChannelErrorCallback();
+            onChannelErrorCallback(`${err}`);
         }
     };
 
@@ -44,9 +78,207 @@ export async function setupChannel(brokerUrl: string, onChannelErrorCallback?: C
         connection.off('close', onConnectionClosed);
         channel.off('error', onChannelError);
         channel.off('close', onChannelClosed);
-        channel.close();
-        connection.close();
+        // Closing a channel that the broker or a connection loss already closed fails. That is not an error here.
+        Promise.resolve()
+            .then(() => channel.close())
+            .then(undefined, (err: Error) => logger.info(`[AMQP] channel already closed: ${err}`));
+        release();
     };
 
     return { channel, close };
 }
+
+export const setupChannel = (
+    brokerUrl: types.BrokerAddress,
+    onChannelErrorCallback?: ChannelErrorCallback,
+    options: types.IEndpointOptions = {}
+) =>
+    doSetupChannel(
+        brokerUrl,
+        (connection: ITransportConnection) => connection.createChannel(),
+        onChannelErrorCallback,
+        options
+    );
+
+/*
+    Publishing on a confirm channel takes a callback, called when the broker acks or nacks the message.
+    If the channel closes, the callbacks of the messages still unconfirmed are called with an error.
+*/
+export const setupConfirmChannel = (
+    brokerUrl: types.BrokerAddress,
+    onChannelErrorCallback?: ChannelErrorCallback,
+    options: types.IEndpointOptions = {}
+) =>
+    doSetupChannel(
+        brokerUrl,
+        (connection: ITransportConnection) => connection.createConfirmChannel(),
+        onChannelErrorCallback,
+        options
+    );
+
+// Asserts the topology once, on a channel that is closed right after.
+export async function declareTopology(
+    brokerUrl: types.BrokerAddress,
+    topology: types.ITopology,
+    options: types.IEndpointOptions = {}
+): Promise<void> {
+    const { close } = await setupChannel(brokerUrl, undefined, { ...options, topology });
+    close();
+}
+
+type ClosableType = { close: () => void };
+type ResourceCreator<ResourceType> = (onChannelError: ChannelErrorCallback) => Promise<ResourceType>;
+
+/*
+    Keeps a channel-backed resource alive: creates it and re-creates it whenever its channel reports an error,
+    waiting between attempts as set by the reconnection policy.
+*/
+export function createHealthChecker<ResourceType extends ClosableType>(
+    name: string,
+    creator: ResourceCreator<ResourceType>,
+    policy: ReconnectionPolicy = defaultReconnectionPolicy
+) {
+    let resource: ResourceType | null = null;
+    let creating: Promise<void> | null = null;
+    let closed = false;
+    let gaveUp = false;
+    let lastError: { message: string; at: Date } | null = null;
+
+    const doCreate = async () => {
+        logger.info('Health checker: trying to connect');
+        try {
+            resource = await creator(onChannelError);
+            gaveUp = false;
+            if (closed) {
+                // Closed while connecting.
+                resource.close();
+                resource = null;
+            }
+        } catch (err) {
+            logger.error(`Error connecting to AMQP broker: ${err}`);
+            lastError = { message: `${err}`, at: new Date() };
+            resource = null;
+        } finally {
+            creating = null;
+        }
+    };
+
+    const healthChecker = async () => {
+        if (resource !== null || closed) {
+            return;
+        }
+
+        if (creating === null) {
+            creating = doCreate();
+        }
+
+        await creating;
+    };
+
+    const backoffTimer = createBackoffTimer(
+        policy,
+        name,
+        async () => {
+            await healthChecker();
+            return resource !== null || closed;
+        },
+        () => {
+            gaveUp = true;
+        }
+    );
+
+    const onChannelError = (reason?: string) => {
+        logger.error('Channel error');
+        lastError = { message: reason || 'Channel error', at: new Date() };
+        const dead = resource;
+        resource = null;
+        if (dead) {
+            // Closed once the connection has emitted all its events, as closing removes the listeners.
+            setImmediate(() => dead.close());
+        }
+        if (!closed) {
+            backoffTimer.start();
+        }
+    };
+
+    // Returns the resource, trying to create it now if it does not exist.
+    const acquire = async (): Promise<ResourceType | null> => {
+        await healthChecker();
+        return resource;
+    };
+
+    const start = async () => {
+        await healthChecker();
+        if (resource === null && !closed) {
+            backoffTimer.start();
+        }
+    };
+
+    // Stops re-creating the resource. If given, drain is awaited before the resource is closed.
+    const close = async (drain?: (resource: ResourceType) => Promise<void>) => {
+        closed = true;
+        backoffTimer.stop();
+
+        const current = resource;
+        resource = null;
+        if (!current) {
+            return;
+        }
+
+        if (drain) {
+            try {
+                await drain(current);
+            } catch (err) {
+                logger.error(`Error draining ${name}: ${err}`);
+            }
+        }
+
+        current.close();
+    };
+
+    const state = (): types.EndpointState => {
+        if (closed) {
+            return 'closed';
+        }
+        if (resource !== null) {
+            return 'connected';
+        }
+        return gaveUp ? 'failed' : 'connecting';
+    };
+
+    const status = () => {
+        return {
+            state: state(),
+            lastError: lastError?.message,
+            lastErrorAt: lastError?.at,
+        };
+    };
+
+    start();
+
+    return {
+        current: () => resource,
+        acquire,
+        close,
+        status,
+    };
+}
+
+// Resolves to false if the promise did not settle within timeoutMs.
+export async function waitWithTimeout(promise: Promise<any>, timeoutMs: number): Promise<boolean> {
+    let timerId: NodeJS.Timeout | null = null;
+    const timeout = new Promise<boolean>((resolve) => {
+        timerId = setTimeout(() => resolve(false), timeoutMs);
+    });
+
+    const settled = promise.then(
+        () => true,
+        () => true
+    );
+
+    const result = await Promise.race([settled, timeout]);
+    if (timerId) {
+        clearTimeout(timerId);
+    }
+    return result;
+}
@@ -0,0 +1,150 @@
+import { logger } from '@bisect/bisect-core-ts';
+import { ITransport, ITransportConnection } from './transport';
+import * as types from './types';
+
+export type ConnectionLease = {
+    connection: ITransportConnection;
+    release: () => void;
+};
+
+type SharedConnection = {
+    connection: Promise<ITransportConnection>;
+    users: number;
+};
+
+// Shared connections, by transport and broker URL.
+const sharedConnections = new Map<ITransport, Map<string, SharedConnection>>();
+
+const connectionsOf = (transport: ITransport) => {
+    let connections = sharedConnections.get(transport);
+    if (!connections) {
+        connections = new Map<string, SharedConnection>();
+        sharedConnections.set(transport, connections);
+    }
+    return connections;
+};
+
+// Endpoints share a connection only if they pass the same URL, or connection options with the same values.
+const addressKey = (brokerUrl: types.BrokerAddress) =>
+    typeof brokerUrl === 'string' ? brokerUrl : JSON.stringify(brokerUrl);
+
+const forget = (transport: ITransport, brokerUrl: types.BrokerAddress, shared: SharedConnection) => {
+    const connections = connectionsOf(transport);
+    const key = addressKey(brokerUrl);
+    if (connections.get(key) === shared) {
+        connections.delete(key);
+    }
+};
+
+// Replaces the password of the URL, if any, so that it can be logged.
+const maskCredentials = (url: string) => url.replace(/^([a-z][a-z0-9+.-]*:\/\/[^:/?#@]*):[^/?#@]*@/i, '$1:***@');
+
+const describeAddress = (brokerUrl: types.BrokerAddress) =>
+    typeof brokerUrl === 'string' ? maskCredentials(brokerUrl) : brokerUrl.hosts.map(maskCredentials).join(', ');
+
+// Tries the hosts in order, and fails with the error of the last one.
+const connectToAny = async (transport: ITransport, brokerUrl: types.BrokerAddress): Promise<ITransportConnection> => {
+    if (typeof brokerUrl === 'string') {
+        return transport.connect(brokerUrl);
+    }
+
+    let lastError: unknown = new Error('AMQP broker hosts not specified');
+    for (const host of brokerUrl.hosts) {
+        try {
+            return await transport.connect(host, brokerUrl);
+        } catch (err) {
+            logger.error(`[AMQP] error connecting to ${maskCredentials(host)}: ${err}`);
+            lastError = err;
+        }
+    }
+    throw lastError;
+};
+
+const closeConnection = async (connection: ITransportConnection) => {
+    try {
+        await connection.close();
+    } catch (err) {
+        logger.error(`[AMQP] error closing connection: ${err}`);
+    }
+};
+
+const connectShared = (transport: ITransport, brokerUrl: types.BrokerAddress): SharedConnection => {
+    logger.info(`[AMQP] connecting to ${describeAddress(brokerUrl)} (shared)`);
+
+    const shared: SharedConnection = {
+        connection: connectToAny(transport, brokerUrl),
+        users: 0,
+    };
+
+    shared.connection.then(
+        (connection: ITransportConnection) => {
+            // Every channel on this connection listens to its events.
+            connection.setMaxListeners(0);
+
+            // A lost connection is never reused. The channels on it report the error to their owners,
+            // whose health checkers then create new channels on a new shared connection.
+            connection.on('error', () => forget(transport, brokerUrl, shared));
+            connection.on('close', () => forget(transport, brokerUrl, shared));
+        },
+        () => forget(transport, brokerUrl, shared)
+    );
+
+    return shared;
+};
+
+export async function openConnection(transport: ITransport, brokerUrl: types.BrokerAddress): Promise<ConnectionLease> {
+    logger.info(`[AMQP] connecting to ${describeAddress(brokerUrl)}`);
+
+    const connection = await connectToAny(transport, brokerUrl);
+
+    return {
+        connection,
+        release: () => {
+            closeConnection(connection);
+        },
+    };
+}
+
+/*
+    Returns the connection shared by every user of the same transport and broker URL, connecting if needed.
+    The connection is closed when the last lease is released.
+*/
+export async function acquireSharedConnection(
+    transport: ITransport,
+    brokerUrl: types.BrokerAddress
+): Promise<ConnectionLease> {
+    const connections = connectionsOf(transport);
+    const key = addressKey(brokerUrl);
+    let shared = connections.get(key);
+    if (!shared) {
+        shared = connectShared(transport, brokerUrl);
+        connections.set(key, shared);
+    }
+
+    const lease = shared;
+    lease.users += 1;
+
+    let connection: ITransportConnection;
+    try {
+        connection = await lease.connection;
+    } catch (err) {
+        lease.users -= 1;
+        throw err;
+    }
+
+    let released = false;
+    const release = () => {
+        if (released) {
+            return;
+        }
+        released = true;
+        lease.users -= 1;
+
+        if (lease.users === 0) {
+            forget(transport, brokerUrl, lease);
+            closeConnection(connection);
+        }
+    };
+
+    return { connection, release };
+}
@@ -0,0 +1,184 @@
+import { logger } from '@bisect/bisect-core-ts';
+import { readLinesIfExists } from '../fs';
+import { createJournalWriter, journalEntries, toJournalLine } from './journal';
+import { mqMetrics } from './metrics';
+import { traceLogger } from './trace';
+import * as types from './types';
+
+const defaultMaxKeys = 100000;
+
+type JournalEntry = { key: string; expiresAt: number };
+
+// Keys with their expiry time, oldest first. Keys over maxKeys are forgotten, oldest first.
+function createKeySet(maxKeys: number) {
+    const keys = new Map<string, number>();
+
+    const prune = (now: number) => {
+        for (const [key, expiresAt] of keys) {
+            if (expiresAt > now && keys.size <= maxKeys) {
+                break;
+            }
+            keys.delete(key);
+        }
+    };
+
+    return {
+        has: (key: string) => {
+            const expiresAt = keys.get(key);
+            return expiresAt !== undefined && expiresAt > Date.now();
+        },
+        set: (key: string, expiresAt: number) => {
+            keys.delete(key);
+            keys.set(key, expiresAt);
+            prune(Date.now());
+        },
+        entries: (): JournalEntry[] => Array.from(keys).map(([key, expiresAt]) => ({ key, expiresAt })),
+        size: () => keys.size,
+    };
+}
+
+export function createMemoryDeduplicationStore(maxKeys: number = defaultMaxKeys): types.IDeduplicationStore {
+    const keys = createKeySet(maxKeys);
+
+    return {
+        has: async (key: string) => keys.has(key),
+        add: async (key: string, ttlMs: number) => keys.set(key, Date.now() + ttlMs),
+    };
+}
+
+/*
+    Keeps the keys in memory and appends each added key to a journal file, which is replayed on open.
+    The journal is rewritten with only the live keys once it has twice as many lines, so it does not grow forever.
+*/
+export async function openFileDeduplicationStore(
+    path: string,
+    maxKeys: number = defaultMaxKeys
+): Promise<types.IDeduplicationStore> {
+    const keys = createKeySet(maxKeys);
+    let lines = 0;
+
+    const content = await readLinesIfExists(path);
+    if (content) {
+        const entries = journalEntries<JournalEntry>(content, (lineNumber, err) =>
+            logger.error(`[Dedup] ignoring invalid line ${lineNumber} in ${path}: ${err}`)
+        );
+        for await (const { entry } of entries) {
+            keys.set(entry.key, entry.expiresAt);
+        }
+    }
+
+    const journal = createJournalWriter(path);
+
+    const compact = async () => {
+        const entries = keys.entries();
+        await journal.replace(entries.map(toJournalLine));
+        lines = entries.length;
+    };
+
+    await compact();
+
+    const add = async (key: string, ttlMs: number) => {
+        const entry = { key, expiresAt: Date.now() + ttlMs };
+        keys.set(entry.key, entry.expiresAt);
+
+        if (lines + 1 > Math.max(2 * keys.size(), 1000)) {
+            await compact();
+        } else {
+            lines += 1;
+            await journal.append(toJournalLine(entry));
+        }
+    };
+
+    return {
+        has: async (key: string) => keys.has(key),
+        add,
+    };
+}
+
+// Number of duplicate messages skipped by each receiver, by queue or exchange name.
+export const duplicateCounts = (): Record<string, number> => {
+    const counts: Record<string, number> = {};
+    mqMetrics.duplicates.values().forEach(({ labels, value }) => {
+        counts[labels.endpoint] = value;
+    });
+    return counts;
+};
+
+type DeduplicatedMessage = {
+    envelope: types.IEnvelope;
+    ack: () => void;
+};
+
+/*
+    Messages with the same key are handled one at a time, so that a duplicate delivered while the first message
+    is still being handled waits to know whether it succeeded.
+*/
+export function createDeduplicator(name: string, options: types.IDeduplicationOptions) {
+    const { store, ttlMs } = options;
+    const keyOf = options.key || ((envelope: types.IEnvelope) => envelope.messageId);
+    const handling = new Map<string, Promise<void>>();
+
+    const getKey = (envelope: types.IEnvelope) => {
+        try {
+            return keyOf(envelope);
+        } catch (err) {
+            traceLogger.error(`Error getting deduplication key of message from ${name}: ${err}`);
+            return undefined;
+        }
+    };
+
+    // A store that fails is treated as not having the key, so that messages are not lost.
+    const isDuplicate = async (key: string) => {
+        try {
+            return await store.has(key);
+        } catch (err) {
+            traceLogger.error(`Error checking deduplication store of ${name}: ${err}`);
+            return false;
+        }
+    };
+
+    const handle = async <M extends DeduplicatedMessage>(m: M, next: (m: M) => Promise<void>): Promise<void> => {
+        const key = getKey(m.envelope);
+        if (key === undefined) {
+            return next(m);
+        }
+
+        let previous: Promise<void> | undefined;
+        while ((previous = handling.get(key))) {
+            await previous;
+        }
+
+        let finish = () => {};
+        handling.set(key, new Promise<void>((resolve) => (finish = resolve)));
+
+        try {
+            if (await isDuplicate(key)) {
+                mqMetrics.duplicates.inc({ endpoint: name });
+                traceLogger.info(`Skipping duplicate message ${key} from ${name}`);
+                try {
+                    m.ack();
+                } catch (err) {
+                    traceLogger.error(`Error acking duplicate message: ${err}`);
+                }
+                return;
+            }
+
+            // Recording starts before the ack: if the ack is lost, the redelivered message is skipped.
+            let recording: Promise<void> = Promise.resolve();
+            const ack = () => {
+                recording = store
+                    .add(key, ttlMs)
+                    .catch((err) => traceLogger.error(`Error recording message ${key} from ${name}: ${err}`));
+                m.ack();
+            };
+
+            await next({ ...m, ack });
+            await recording;
+        } finally {
+            handling.delete(key);
+            finish();
+        }
+    };
+
+    return { handle };
+}
@@ -0,0 +1,107 @@
+import { ITransportChannel } from './transport';
+import * as types from './types';
+
+export const DEFAULT_DELAY_RESOLUTION_MS = 1000;
+
+// A staging queue expires this long after its delay, unless it is asserted again.
+const EXPIRY_MARGIN_MS = 60000;
+// Staging queues in use are asserted again this often, to reset their expiry.
+const REASSERT_INTERVAL_MS = 30000;
+
+// Where to publish a message for it to be delivered after its delay.
+export type StagingRoute = {
+    exchange: string;
+    routingKey: string;
+};
+
+export type Stager = (delayMs: number, routingKey: string) => Promise<StagingRoute>;
+
+// Dates read back from the outbox journal are ISO strings.
+const toUnixTimeMs = (deliverAt: Date | number | string): number => {
+    if (deliverAt instanceof Date) {
+        return deliverAt.getTime();
+    }
+    return typeof deliverAt === 'string' ? Date.parse(deliverAt) : deliverAt;
+};
+
+// Time to wait before delivering the message, counted from now. Zero or less means no delay.
+export const deliveryDelayMs = (m: types.IDelayedDelivery, now: number = Date.now()): number => {
+    if (m.delayMs !== undefined) {
+        return m.delayMs;
+    }
+    if (m.deliverAt !== undefined) {
+        return toUnixTimeMs(m.deliverAt) - now;
+    }
+    return 0;
+};
+
+// Rounded up, so that messages are never delivered early.
+const stagedDelayMs = (delayMs: number, resolutionMs: number) => Math.ceil(delayMs / resolutionMs) * resolutionMs;
+
+const stagingName = (targetName: string, delayMs: number) => `${targetName}.delay.${delayMs}`;
+
+// Runs assert for each name the first time, and again after REASSERT_INTERVAL_MS.
+function createAssertCache(assert: (name: string, delayMs: number) => Promise<void>) {
+    const assertedAt = new Map<string, number>();
+
+    return async (name: string, delayMs: number) => {
+        const last = assertedAt.get(name);
+        if (last === undefined || Date.now() - last > REASSERT_INTERVAL_MS) {
+            await assert(name, delayMs);
+            assertedAt.set(name, Date.now());
+        }
+    };
+}
+
+/*
+    Messages wait in a staging queue with a TTL equal to their delay, which dead-letters them into the queue
+    through the default exchange. There is one staging queue per delay, after rounding it up to resolutionMs.
+    Unused staging queues expire.
+*/
+export function createQueueStager(channel: ITransportChannel, queue: types.IQueueInfo, resolutionMs: number): Stager {
+    const assertStaging = createAssertCache(async (name: string, delayMs: number) => {
+        await channel.assertQueue(name, {
+            durable: queue.options?.durable,
+            messageTtl: delayMs,
+            expires: delayMs + EXPIRY_MARGIN_MS,
+            deadLetterExchange: '',
+            deadLetterRoutingKey: queue.name,
+        });
+    });
+
+    return async (delayMs: number) => {
+        const staged = stagedDelayMs(delayMs, resolutionMs);
+        const name = stagingName(queue.name, staged);
+        await assertStaging(name, staged);
+        return { exchange: '', routingKey: name };
+    };
+}
+
+/*
+    Same as for queues, but messages go through a fanout staging exchange, so that they keep their routing key,
+    and are dead-lettered into the exchange with it.
+*/
+export function createExchangeStager(
+    channel: ITransportChannel,
+    exchange: types.IExchangeInfo,
+    resolutionMs: number
+): Stager {
+    const assertStaging = createAssertCache(async (name: string, delayMs: number) => {
+        const durable = exchange.options?.durable;
+        await channel.assertExchange(name, 'fanout', { durable, autoDelete: true });
+        await channel.assertQueue(name, {
+            durable,
+            messageTtl: delayMs,
+            expires: delayMs + EXPIRY_MARGIN_MS,
+            deadLetterExchange: exchange.name,
+        });
+        await channel.bindQueue(name, name, '');
+    });
+
+    return async (delayMs: number, routingKey: string) => {
+        const staged = stagedDelayMs(delayMs, resolutionMs);
+        const name = stagingName(exchange.name, staged);
+        await assertStaging(name, staged);
+        return { exchange: name, routingKey };
+    };
+}
@@ -0,0 +1,33 @@
+import { ConsumeMessage, Options } from 'amqplib';
+import * as types from './types';
+
+export const toPublishOptions = (m: types.IMessageProperties): Options.Publish => ({
+    headers: m.headers,
+    messageId: m.messageId,
+    correlationId: m.correlationId,
+    timestamp: m.timestamp,
+    type: m.type,
+    contentType: m.contentType,
+    priority: m.priority,
+});
+
+// amqplib sets absent properties to undefined.
+export const toEnvelope = (m: ConsumeMessage): types.IEnvelope => {
+    const { fields, properties } = m;
+
+    return {
+        content: m.content,
+        exchange: fields.exchange,
+        routingKey: fields.routingKey,
+        redelivered: fields.redelivered,
+        headers: properties.headers || {},
+        messageId: properties.messageId,
+        correlationId: properties.correlationId,
+        timestamp: properties.timestamp,
+        type: properties.type,
+        contentType: properties.contentType,
+        priority: properties.priority,
+        replyTo: properties.replyTo,
+        appId: properties.appId,
+    };
+};
@@ -0,0 +1,66 @@
+import * as http from 'http';
+import { logger } from '@bisect/bisect-core-ts';
+import { registeredEndpoints } from './shutdown';
+import * as types from './types';
+
+const readyStates: types.EndpointState[] = ['connected', 'idle'];
+
+const endpointStatus = (endpoint: { name: string; status: () => types.IEndpointStatus }): types.IEndpointStatus => {
+    try {
+        return endpoint.status();
+    } catch (err) {
+        return { name: endpoint.name, state: 'failed', lastError: `Error getting status: ${err}`, buffered: 0 };
+    }
+};
+
+// Combines the status of all the registered endpoints. With no endpoints, the process is live and ready.
+export function checkHealth(): types.IHealthReport {
+    const endpoints = registeredEndpoints().map(endpointStatus);
+
+    return {
+        live: endpoints.every((status) => status.state !== 'failed'),
+        ready: endpoints.every((status) => readyStates.includes(status.state)),
+        endpoints,
+    };
+}
+
+export interface IHealthServerOptions {
+    livePath?: string; // Defaults to /healthz
+    readyPath?: string; // Defaults to /readyz
+}
+
+/*
+    Serves the health report as JSON, for liveness and readiness probes.
+    The status is 200 if the process is live or ready, depending on the path, and 503 otherwise.
+*/
+export async function startHealthServer(port: number, options: IHealthServerOptions = {}) {
+    const livePath = options.livePath || '/healthz';
+    const readyPath = options.readyPath || '/readyz';
+
+    const server = http.createServer((request, response) => {
+        const path = (request.url || '').split('?')[0];
+        if (request.method !== 'GET' || (path !== livePath && path !== readyPath)) {
+            response.writeHead(404);
+            response.end();
+            return;
+        }
+
+        const report = checkHealth();
+        const healthy = path === livePath ? report.live : report.ready;
+        response.writeHead(healthy ? 200 : 503, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify(report));
+    });
+
+    await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, () => {
+            server.off('error', reject);
+            resolve();
+        });
+    });
+    logger.info(`Serving health checks on port ${port}`);
+
+    return {
+        close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+    };
+}
@@ -1,3 +1,47 @@
 export * from './send';
 export * from './receive';
 export * from './types';
+export * from './rpc';
+export { retryCountHeader, lastErrorHeader, failureReasonHeader, attemptsHeader } from './retry';
+export {
+    ReconnectionPolicy,
+    IReconnectionSettings,
+    IReconnectionEvent,
+    defaultReconnectionPolicy,
+    reconnectingKey,
+    reconnectedKey,
+    gaveUpKey,
+} from './reconnect';
+export * from './shutdown';
+export * from './transport';
+export * from './codec';
+export * from './channel';
+export { loadTopology, validateTopology, diffTopology } from './topology';
+export { declareTopology } from './common';
+export { createMemoryDeduplicationStore, openFileDeduplicationStore, duplicateCounts } from './dedup';
+export {
+    createMetricsRegistry,
+    metricsRegistry,
+    startMetricsServer,
+    MetricsRegistry,
+    ICounter,
+    IGauge,
+    IHistogram,
+    Labels,
+    DEFAULT_BUCKETS,
+} from './metrics';
+export { checkHealth, startHealthServer, IHealthServerOptions } from './health';
+export {
+    traceparentHeader,
+    tracestateHeader,
+    createTraceContext,
+    createAsyncLocalPropagator,
+    setTracePropagator,
+    currentTraceContext,
+    currentTraceId,
+    runWithTraceContext,
+    traceLogger,
+} from './trace';
+export { createDirectoryPayloadStore, claimCheckHeader, DEFAULT_CLAIM_CHECK_THRESHOLD_BYTES } from './claimCheck';
+export { captureFiles, replayToQueue, replayToExchange } from './capture';
+export { MemoryBroker } from './memoryBroker';
@@ -0,0 +1,54 @@
+import { appendToFile, replaceFile } from '../fs';
+
+// Journals are JSONL files, with one entry per line. Used by the outbox, the deduplication store and capture.
+
+export const toJournalLine = (entry: unknown) => `${JSON.stringify(entry)}\n`;
+
+/*
+    Yields the entries of a journal, with their line, as the lines are read. Lines that cannot be parsed are
+    passed to onInvalid and skipped. Most likely the last line, written partially when the process stopped.
+*/
+export async function* journalEntries<Entry>(
+    lines: AsyncIterable<string>,
+    onInvalid: (lineNumber: number, err: unknown) => void
+): AsyncGenerator<{ entry: Entry; line: string }> {
+    let lineNumber = 0;
+    for await (const line of lines) {
+        lineNumber += 1;
+        if (line.length === 0) {
+            continue;
+        }
+
+        let entry: Entry;
+        try {
+            entry = JSON.parse(line);
+        } catch (err) {
+            onInvalid(lineNumber, err);
+            continue;
+        }
+
+        yield { entry, line };
+    }
+}
+
+/*
+    Writes are serialized, so that they are done in the order of the calls. A failed write only rejects its own call.
+    replace rewrites the journal with the given lines, to compact it.
+*/
+export function createJournalWriter(path: string) {
+    let writing: Promise<void> = Promise.resolve();
+
+    const write = (operation: () => Promise<void>): Promise<void> => {
+        const result = writing.then(operation);
+        writing = result.catch(() => undefined);
+        return result;
+    };
+
+    return {
+        write,
+        append: (lines: string) => write(() => appendToFile(path, lines)),
+        replace: (lines: string[]) => write(() => replaceFile(path, lines.join(''))),
+        // Resolves once the writes called so far are done, whether they failed or not.
+        flush: () => writing,
+    };
+}
@@ -0,0 +1,930 @@
+import * as EventEmitter from 'events';
+import { ConsumeMessage, GetMessage, Message, MessageProperties, Options, Replies } from 'amqplib';
+import { logger } from '@bisect/bisect-core-ts';
+import {
+    ConfirmCallback,
+    ConsumeCallback,
+    IConfirmTransportChannel,
+    ITransport,
+    ITransportConnection,
+} from './transport';
+
+/*
+    An in-process stand-in for an AMQP broker, for tests and local development.
+
+    Supports queues (including server-named and exclusive ones), the default exchange, direct, topic, fanout and
+    headers exchanges, queue and exchange bindings, prefetch, ack/nack/reject, message and queue TTL, max length,
+    dead-lettering and publisher confirms.
+    Not supported: queue expiry, priorities, alternate exchanges and most broker-side validations.
+
+    const broker = new MemoryBroker();
+    setDefaultTransport(broker);
+    ...
+    broker.dropConnections(); // Simulates a connection loss
+*/
+
+type QueuedMessage = {
+    content: Buffer;
+    exchange: string;
+    routingKey: string;
+    properties: MessageProperties;
+    redelivered: boolean;
+    expiresAt?: number;
+    timerId?: NodeJS.Timeout;
+};
+
+type QueueSettings = {
+    durable: boolean;
+    exclusive: boolean;
+    autoDelete: boolean;
+    messageTtl?: number;
+    deadLetterExchange?: string;
+    deadLetterRoutingKey?: string;
+    maxLength?: number;
+};
+
+type Consumer = {
+    tag: string;
+    channel: MemoryChannel;
+    callback: ConsumeCallback;
+    noAck: boolean;
+};
+
+type Binding = {
+    destination: string;
+    destinationType: 'queue' | 'exchange';
+    pattern: string;
+    args: any;
+};
+
+type MemoryQueue = {
+    name: string;
+    settings: QueueSettings;
+    owner: MemoryConnection | null; // Exclusive queues are deleted when their connection closes
+    messages: QueuedMessage[];
+    consumers: Consumer[];
+    nextConsumer: number;
+    dispatchScheduled: boolean;
+};
+
+type MemoryExchange = {
+    name: string;
+    type: string;
+    bindings: Binding[];
+};
+
+type Unacked = {
+    message: QueuedMessage;
+    queue: MemoryQueue;
+    consumerTag?: string;
+};
+
+const defaultExchange = '';
+
+const toProperties = (options: Options.Publish = {}): MessageProperties => ({
+    contentType: options.contentType,
+    contentEncoding: options.contentEncoding,
+    headers: { ...options.headers },
+    deliveryMode: options.deliveryMode !== undefined ? options.deliveryMode : options.persistent ? 2 : undefined,
+    priority: options.priority,
+    correlationId: options.correlationId,
+    replyTo: options.replyTo,
+    expiration: options.expiration !== undefined ? `${options.expiration}` : undefined,
+    messageId: options.messageId,
+    timestamp: options.timestamp,
+    type: options.type,
+    userId: options.userId,
+    appId: options.appId,
+    clusterId: undefined,
+});
+
+const argument = (args: any, name: string) => (args ? args[name] : undefined);
+
+const toQueueSettings = (options: Options.AssertQueue = {}): QueueSettings => ({
+    durable: options.durable !== false,
+    exclusive: options.exclusive === true,
+    autoDelete: options.autoDelete === true,
+    messageTtl: options.messageTtl ?? argument(options.arguments, 'x-message-ttl'),
+    deadLetterExchange: options.deadLetterExchange ?? argument(options.arguments, 'x-dead-letter-exchange'),
+    deadLetterRoutingKey: options.deadLetterRoutingKey ?? argument(options.arguments, 'x-dead-letter-routing-key'),
+    maxLength: options.maxLength ?? argument(options.arguments, 'x-max-length'),
+});
+
+// '*' matches exactly one word, '#' matches zero or more words.
+export function topicMatches(pattern: string, routingKey: string): boolean {
+    const matchWords = (p: string[], k: string[]): boolean => {
+        if (p.length === 0) {
+            return k.length === 0;
+        }
+
+        const [head, ...rest] = p;
+        if (head === '#') {
+            for (let i = 0; i <= k.length; i++) {
+                if (matchWords(rest, k.slice(i))) {
+                    return true;
+                }
+            }
+            return false;
+        }
+
+        if (k.length === 0) {
+            return false;
+        }
+
+        return (head === '*' || head === k[0]) && matchWords(rest, k.slice(1));
+    };
+
+    return matchWords(pattern.split('.'), routingKey.split('.'));
+}
+
+const headersMatch = (args: any, headers: any): boolean => {
+    const expected = Object.keys(args || {}).filter((key) => !key.startsWith('x-'));
+    const matches = (key: string) => headers[key] === args[key];
+    return argument(args, 'x-match') === 'any' ? expected.some(matches) : expected.every(matches);
+};
+
+const bindingMatches = (exchange: MemoryExchange, binding: Binding, routingKey: string, headers: any): boolean => {
+    switch (exchange.type) {
+        case 'fanout':
+            return true;
+        case 'topic':
+            return topicMatches(binding.pattern, routingKey);
+        case 'headers':
+        case 'match':
+            return headersMatch(binding.args, headers);
+        default:
+            return binding.pattern === routingKey;
+    }
+};
+
+const schedule = (action: () => void) => {
+    setImmediate(action);
+};
+
+const unref = (timerId: NodeJS.Timeout) => {
+    // Pending message expiries should not keep the process alive.
+    timerId.unref();
+    return timerId;
+};
+
+class MemoryChannel extends EventEmitter.EventEmitter implements IConfirmTransportChannel {
+    private closed = false;
+    private deliveryTag = 0;
+    private prefetchCount = 0;
+    private readonly unacked = new Map<number, Unacked>();
+    private readonly consumerTags = new Set<string>();
+
+    constructor(
+        private readonly broker: MemoryBroker,
+        public readonly connection: MemoryConnection,
+        private readonly confirm: boolean
+    ) {
+        super();
+    }
+
+    private check() {
+        if (this.closed) {
+            throw new Error('Channel closed');
+        }
+    }
+
+    // Closes the channel as the broker does on a protocol error, and returns the error to throw.
+    private fail(message: string): Error {
+        const err = new Error(message);
+        schedule(() => this.doClose(err));
+        return err;
+    }
+
+    public hasCapacity(): boolean {
+        const delivered = Array.from(this.unacked.values()).filter((u) => u.consumerTag !== undefined).length;
+        return !this.closed && (this.prefetchCount === 0 || delivered < this.prefetchCount);
+    }
+
+    public deliver(consumer: Consumer, queue: MemoryQueue, message: QueuedMessage) {
+        this.deliveryTag += 1;
+        const deliveryTag = this.deliveryTag;
+
+        if (!consumer.noAck) {
+            this.unacked.set(deliveryTag, { message, queue, consumerTag: consumer.tag });
+        }
+
+        const fields = {
+            deliveryTag,
+            redelivered: message.redelivered,
+            exchange: message.exchange,
+            routingKey: message.routingKey,
+            consumerTag: consumer.tag,
+        };
+        const m: ConsumeMessage = { content: message.content, fields, properties: message.properties };
+
+        try {
+            consumer.callback(m);
+        } catch (err) {
+            logger.error(`[MemoryBroker] error in consumer ${consumer.tag}: ${err}`);
+        }
+    }
+
+    public doClose(err?: Error) {
+        if (this.closed) {
+            return;
+        }
+        this.closed = true;
+
+        this.consumerTags.forEach((tag) => this.broker.removeConsumer(tag));
+        this.consumerTags.clear();
+
+        const unacked = Array.from(this.unacked.values());
+        this.unacked.clear();
+        unacked.forEach(({ queue, message }) => this.broker.requeue(queue, [message]));
+
+        this.connection.removeChannel(this);
+
+        if (err) {
+            this.emit('error', err);
+        }
+        this.emit('close');
+    }
+
+    public async close(): Promise<void> {
+        this.check();
+        this.doClose();
+    }
+
+    public async assertQueue(queue: string, options?: Options.AssertQueue): Promise<Replies.AssertQueue> {
+        this.check();
+        const q = this.broker.assertQueue(queue, toQueueSettings(options), this.connection);
+        return { queue: q.name, messageCount: q.messages.length, consumerCount: q.consumers.length };
+    }
+
+    public async checkQueue(queue: string): Promise<Replies.AssertQueue> {
+        this.check();
+        const q = this.broker.findQueue(queue);
+        if (!q) {
+            throw this.fail(`NOT_FOUND - no queue '${queue}'`);
+        }
+        return { queue: q.name, messageCount: q.messages.length, consumerCount: q.consumers.length };
+    }
+
+    public async deleteQueue(queue: string, _options?: Options.DeleteQueue): Promise<Replies.DeleteQueue> {
+        this.check();
+        return { messageCount: this.broker.deleteQueue(queue) };
+    }
+
+    public async purgeQueue(queue: string): Promise<Replies.PurgeQueue> {
+        this.check();
+        const q = this.broker.findQueue(queue);
+        if (!q) {
+            throw this.fail(`NOT_FOUND - no queue '${queue}'`);
+        }
+        return { messageCount: this.broker.purge(q) };
+    }
+
+    public async bindQueue(queue: string, source: string, pattern: string, args?: any): Promise<Replies.Empty> {
+        this.check();
+        if (!this.broker.findQueue(queue) || !this.broker.findExchange(source)) {
+            throw this.fail(`NOT_FOUND - cannot bind queue '${queue}' to exchange '${source}'`);
+        }
+        this.broker.bind(source, { destination: queue, destinationType: 'queue', pattern, args });
+        return {};
+    }
+
+    public async unbindQueue(queue: string, source: string, pattern: string, args?: any): Promise<Replies.Empty> {
+        this.check();
+        this.broker.unbind(source, { destination: queue, destinationType: 'queue', pattern, args });
+        return {};
+    }
+
+    public async assertExchange(
+        exchange: string,
+        type: string,
+        _options?: Options.AssertExchange
+    ): Promise<Replies.AssertExchange> {
+        this.check();
+        this.broker.assertExchange(exchange, type);
+        return { exchange };
+    }
+
+    public async checkExchange(exchange: string): Promise<Replies.Empty> {
+        this.check();
+        if (!this.broker.findExchange(exchange)) {
+            throw this.fail(`NOT_FOUND - no exchange '${exchange}'`);
+        }
+        return {};
+    }
+
+    public async deleteExchange(exchange: string, _options?: Options.DeleteExchange): Promise<Replies.Empty> {
+        this.check();
+        this.broker.deleteExchange(exchange);
+        return {};
+    }
+
+    public async bindExchange(
+        destination: string,
+        source: string,
+        pattern: string,
+        args?: any
+    ): Promise<Replies.Empty> {
+        this.check();
+        if (!this.broker.findExchange(destination) || !this.broker.findExchange(source)) {
+            throw this.fail(`NOT_FOUND - cannot bind exchange '${destination}' to exchange '${source}'`);
+        }
+        this.broker.bind(source, { destination, destinationType: 'exchange', pattern, args });
+        return {};
+    }
+
+    public async unbindExchange(
+        destination: string,
+        source: string,
+        pattern: string,
+        args?: any
+    ): Promise<Replies.Empty> {
+        this.check();
+        this.broker.unbind(source, { destination, destinationType: 'exchange', pattern, args });
+        return {};
+    }
+
+    public publish(
+        exchange: string,
+        routingKey: string,
+        content: Buffer,
+        options?: Options.Publish,
+        callback?: ConfirmCallback
+    ): boolean {
+        this.check();
+
+        if (!this.broker.findExchange(exchange)) {
+            const err = this.fail(`NOT_FOUND - no exchange '${exchange}'`);
+            if (callback) {
+                schedule(() => callback(err, {}));
+            }
+            return true;
+        }
+
+        const asList = (keys?: string | string[]) => (keys === undefined ? [] : Array.isArray(keys) ? keys : [keys]);
+        const keys = [routingKey, ...asList(options?.CC), ...asList(options?.BCC)];
+        const properties = toProperties(options);
+        this.broker.route(exchange, keys, content, properties);
+
+        if (this.confirm && callback) {
+            schedule(() => callback(null, {}));
+        }
+        return true;
+    }
+
+    public sendToQueue(queue: string, content: Buffer, options?: Options.Publish, callback?: ConfirmCallback): boolean {
+        return this.publish(defaultExchange, queue, content, options, callback);
+    }
+
+    public async consume(
+        queue: string,
+        onMessage: ConsumeCallback,
+        options?: Options.Consume
+    ): Promise<Replies.Consume> {
+        this.check();
+        const q = this.broker.findQueue(queue);
+        if (!q) {
+            throw this.fail(`NOT_FOUND - no queue '${queue}'`);
+        }
+
+        const tag = options?.consumerTag || this.broker.nextConsumerTag();
+        this.consumerTags.add(tag);
+        this.broker.addConsumer(q, { tag, channel: this, callback: onMessage, noAck: options?.noAck === true });
+        return { consumerTag: tag };
+    }
+
+    public async cancel(consumerTag: string): Promise<Replies.Empty> {
+        this.check();
+        this.consumerTags.delete(consumerTag);
+        this.broker.removeConsumer(consumerTag);
+        return {};
+    }
+
+    public async get(queue: string, options?: Options.Get): Promise<GetMessage | false> {
+        this.check();
+        const q = this.broker.findQueue(queue);
+        if (!q) {
+            throw this.fail(`NOT_FOUND - no queue '${queue}'`);
+        }
+
+        const message = this.broker.take(q);
+        if (!message) {
+            return false;
+        }
+
+        this.deliveryTag += 1;
+        if (options?.noAck !== true) {
+            this.unacked.set(this.deliveryTag, { message, queue: q });
+        }
+
+        return {
+            content: message.content,
+            fields: {
+                deliveryTag: this.deliveryTag,
+                redelivered: message.redelivered,
+                exchange: message.exchange,
+                routingKey: message.routingKey,
+                messageCount: q.messages.length,
+            },
+            properties: message.properties,
+        };
+    }
+
+    // Removes the unacked messages up to the message's delivery tag, or only that one.
+    private settle(message: Message, allUpTo?: boolean): Unacked[] {
+        const tag = message.fields.deliveryTag;
+        if (!this.unacked.has(tag)) {
+            throw this.fail(`PRECONDITION_FAILED - unknown delivery tag ${tag}`);
+        }
+
+        const tags = allUpTo ? Array.from(this.unacked.keys()).filter((t) => t <= tag) : [tag];
+        return tags.map((t) => {
+            const settled = this.unacked.get(t) as Unacked;
+            this.unacked.delete(t);
+            return settled;
+        });
+    }
+
+    private afterSettle(settled: Unacked[]) {
+        new Set(settled.map((u) => u.queue)).forEach((queue) => this.broker.dispatch(queue));
+        // Other queues consumed on this channel may be waiting for prefetch capacity.
+        this.broker.dispatchAll();
+    }
+
+    public ack(message: Message, allUpTo?: boolean): void {
+        this.check();
+        this.afterSettle(this.settle(message, allUpTo));
+    }
+
+    public ackAll(): void {
+        this.check();
+        const settled = Array.from(this.unacked.values());
+        this.unacked.clear();
+        this.afterSettle(settled);
+    }
+
+    public nack(message: Message, allUpTo?: boolean, requeue: boolean = true): void {
+        this.check();
+        const settled = this.settle(message, allUpTo);
+        this.rejectSettled(settled, requeue);
+    }
+
+    public nackAll(requeue: boolean = true): void {
+        this.check();
+        const settled = Array.from(this.unacked.values());
+        this.unacked.clear();
+        this.rejectSettled(settled, requeue);
+    }
+
+    public reject(message: Message, requeue: boolean = true): void {
+        this.nack(message, false, requeue);
+    }
+
+    private rejectSettled(settled: Unacked[], requeue: boolean) {
+        settled.forEach(({ queue, message }) => {
+            if (requeue) {
+                this.broker.requeue(queue, [message]);
+            } else {
+                this.broker.deadLetter(queue, message, 'rejected');
+            }
+        });
+        this.afterSettle(settled);
+    }
+
+    public async prefetch(count: number, _global?: boolean): Promise<Replies.Empty> {
+        this.check();
+        this.prefetchCount = count;
+        this.broker.dispatchAll();
+        return {};
+    }
+
+    public async waitForConfirms(): Promise<void> {
+        // Messages are confirmed as soon as they are routed.
+    }
+}
+
+class MemoryConnection extends EventEmitter.EventEmitter implements ITransportConnection {
+    private closed = false;
+    private readonly channels = new Set<MemoryChannel>();
+
+    constructor(private readonly broker: MemoryBroker) {
+        super();
+    }
+
+    private async openChannel(confirm: boolean): Promise<MemoryChannel> {
+        if (this.closed) {
+            throw new Error('Connection closed');
+        }
+        const channel = new MemoryChannel(this.broker, this, confirm);
+        this.channels.add(channel);
+        return channel;
+    }
+
+    public createChannel(): Promise<MemoryChannel> {
+        return this.openChannel(false);
+    }
+
+    public createConfirmChannel(): Promise<MemoryChannel> {
+        return this.openChannel(true);
+    }
+
+    public removeChannel(channel: MemoryChannel) {
+        this.channels.delete(channel);
+    }
+
+    public doClose(err?: Error) {
+        if (this.closed) {
+            return;
+        }
+        this.closed = true;
+
+        Array.from(this.channels).forEach((channel) => channel.doClose());
+        this.broker.removeConnection(this);
+
+        if (err) {
+            this.emit('error', err);
+        }
+        this.emit('close', err);
+    }
+
+    public async close(): Promise<void> {
+        if (this.closed) {
+            throw new Error('Connection closed');
+        }
+        this.doClose();
+    }
+}
+
+export class MemoryBroker implements ITransport {
+    private available = true;
+    private queueCounter = 0;
+    private consumerCounter = 0;
+    private readonly queues = new Map<string, MemoryQueue>();
+    private readonly exchanges = new Map<string, MemoryExchange>();
+    private readonly connections = new Set<MemoryConnection>();
+
+    constructor() {
+        this.exchanges.set(defaultExchange, { name: defaultExchange, type: 'direct', bindings: [] });
+    }
+
+    public async connect(_brokerUrl: string): Promise<ITransportConnection> {
+        if (!this.available) {
+            throw new Error('ECONNREFUSED: memory broker not available');
+        }
+        const connection = new MemoryConnection(this);
+        this.connections.add(connection);
+        return connection;
+    }
+
+    // Simulates losing every open connection: their channels close and unacked messages are requeued.
+    public dropConnections(): void {
+        Array.from(this.connections).forEach((connection) =>
+            connection.doClose(new Error('Connection dropped by memory broker'))
+        );
+    }
+
+    // While not available, open connections are dropped and new connections are refused.
+    public setAvailable(available: boolean): void {
+        this.available = available;
+        if (!available) {
+            this.dropConnections();
+        }
+    }
+
+    public messageCount(queue: string): number {
+        return this.findQueue(queue)?.messages.length ?? 0;
+    }
+
+    public queueNames(): string[] {
+        return Array.from(this.queues.keys());
+    }
+
+    public exchangeNames(): string[] {
+        return Array.from(this.exchanges.keys()).filter((name) => name !== defaultExchange);
+    }
+
+    // Removes every queue, exchange and connection.
+    public reset(): void {
+        this.dropConnections();
+        this.queues.forEach((queue) => this.purge(queue));
+        this.queues.clear();
+        this.exchanges.clear();
+        this.exchanges.set(defaultExchange, { name: defaultExchange, type: 'direct', bindings: [] });
+    }
+
+    public removeConnection(connection: MemoryConnection) {
+        this.connections.delete(connection);
+        Array.from(this.queues.values())
+            .filter((queue) => queue.owner === connection)
+            .forEach((queue) => this.deleteQueue(queue.name));
+    }
+
+    public nextConsumerTag(): string {
+        this.consumerCounter += 1;
+        return `amq.ctag-${this.consumerCounter}`;
+    }
+
+    public findQueue(name: string): MemoryQueue | undefined {
+        return this.queues.get(name);
+    }
+
+    public findExchange(name: string): MemoryExchange | undefined {
+        return this.exchanges.get(name);
+    }
+
+    public assertQueue(name: string, settings: QueueSettings, connection: MemoryConnection): MemoryQueue {
+        let queueName = name;
+        if (queueName === '') {
+            this.queueCounter += 1;
+            queueName = `amq.gen-${this.queueCounter}`;
+        }
+
+        const existing = this.queues.get(queueName);
+        if (existing) {
+            return existing;
+        }
+
+        const queue: MemoryQueue = {
+            name: queueName,
+            settings,
+            owner: settings.exclusive ? connection : null,
+            messages: [],
+            consumers: [],
+            nextConsumer: 0,
+            dispatchScheduled: false,
+        };
+        this.queues.set(queueName, queue);
+        return queue;
+    }
+
+    public deleteQueue(name: string): number {
+        const queue = this.queues.get(name);
+        if (!queue) {
+            return 0;
+        }
+
+        this.queues.delete(name);
+        this.exchanges.forEach((exchange) => {
+            exchange.bindings = exchange.bindings.filter(
+                (b) => !(b.destinationType === 'queue' && b.destination === name)
+            );
+        });
+
+        // The broker cancels the consumers of a deleted queue.
+        const consumers = queue.consumers;
+        queue.consumers = [];
+        consumers.forEach((consumer) => consumer.callback(null));
+
+        return this.purge(queue);
+    }
+
+    public purge(queue: MemoryQueue): number {
+        const count = queue.messages.length;
+        queue.messages.forEach((message) => this.clearExpiry(message));
+        queue.messages = [];
+        return count;
+    }
+
+    public assertExchange(name: string, type: string) {
+        if (!this.exchanges.has(name)) {
+            this.exchanges.set(name, { name, type, bindings: [] });
+        }
+    }
+
+    public deleteExchange(name: string) {
+        if (name === defaultExchange) {
+            return;
+        }
+        this.exchanges.delete(name);
+        this.exchanges.forEach((exchange) => {
+            exchange.bindings = exchange.bindings.filter(
+                (b) => !(b.destinationType === 'exchange' && b.destination === name)
+            );
+        });
+    }
+
+    private sameBinding = (a: Binding, b: Binding) =>
+        a.destination === b.destination && a.destinationType === b.destinationType && a.pattern === b.pattern;
+
+    public bind(source: string, binding: Binding) {
+        const exchange = this.exchanges.get(source);
+        if (exchange && !exchange.bindings.some((b) => this.sameBinding(b, binding))) {
+            exchange.bindings.push(binding);
+        }
+    }
+
+    public unbind(source: string, binding: Binding) {
+        const exchange = this.exchanges.get(source);
+        if (exchange) {
+            exchange.bindings = exchange.bindings.filter((b) => !this.sameBinding(b, binding));
+        }
+    }
+
+    // Returns the queues that a message published to the exchange with the routing key ends up in.
+    private resolve(exchangeName: string, routingKey: string, headers: any, visited: Set<string>): Set<MemoryQueue> {
+        const result = new Set<MemoryQueue>();
+        if (visited.has(exchangeName)) {
+            return result;
+        }
+        visited.add(exchangeName);
+
+        if (exchangeName === defaultExchange) {
+            const queue = this.queues.get(routingKey);
+            if (queue) {
+                result.add(queue);
+            }
+            return result;
+        }
+
+        const exchange = this.exchanges.get(exchangeName);
+        if (!exchange) {
+            return result;
+        }
+
+        exchange.bindings
+            .filter((binding) => bindingMatches(exchange, binding, routingKey, headers))
+            .forEach((binding) => {
+                if (binding.destinationType === 'queue') {
+                    const queue = this.queues.get(binding.destination);
+                    if (queue) {
+                        result.add(queue);
+                    }
+                } else {
+                    this.resolve(binding.destination, routingKey, headers, visited).forEach((q) => result.add(q));
+                }
+            });
+
+        return result;
+    }
+
+    public route(exchange: string, routingKeys: string[], content: Buffer, properties: MessageProperties) {
+        const queues = new Set<MemoryQueue>();
+        routingKeys.forEach((key) =>
+            this.resolve(exchange, key, properties.headers, new Set<string>()).forEach((q) => queues.add(q))
+        );
+
+        queues.forEach((queue) =>
+            this.enqueue(queue, {
+                content,
+                exchange,
+                routingKey: routingKeys[0],
+                properties: { ...properties, headers: { ...properties.headers } },
+                redelivered: false,
+            })
+        );
+    }
+
+    private ttlOf(queue: MemoryQueue, message: QueuedMessage): number | undefined {
+        const ttls = [queue.settings.messageTtl, message.properties.expiration]
+            .filter((ttl) => ttl !== undefined)
+            .map((ttl) => Number(ttl));
+        return ttls.length > 0 ? Math.min(...ttls) : undefined;
+    }
+
+    private armExpiry(queue: MemoryQueue, message: QueuedMessage) {
+        if (message.expiresAt === undefined) {
+            return;
+        }
+
+        const delay = Math.max(0, message.expiresAt - Date.now());
+        message.timerId = unref(
+            setTimeout(() => {
+                const index = queue.messages.indexOf(message);
+                if (index >= 0) {
+                    queue.messages.splice(index, 1);
+                    this.deadLetter(queue, message, 'expired');
+                }
+            }, delay)
+        );
+    }
+
+    private clearExpiry(message: QueuedMessage) {
+        if (message.timerId) {
+            clearTimeout(message.timerId);
+            message.timerId = undefined;
+        }
+    }
+
+    private enqueue(queue: MemoryQueue, message: QueuedMessage) {
+        const ttl = this.ttlOf(queue, message);
+        if (ttl !== undefined) {
+            message.expiresAt = Date.now() + ttl;
+        }
+
+        queue.messages.push(message);
+        this.armExpiry(queue, message);
+
+        const { maxLength } = queue.settings;
+        while (maxLength !== undefined && queue.messages.length > maxLength) {
+            const dropped = queue.messages.shift() as QueuedMessage;
+            this.clearExpiry(dropped);
+            this.deadLetter(queue, dropped, 'maxlen');
+        }
+
+        this.dispatch(queue);
+    }
+
+    // Puts messages back at the head of the queue, marked as redelivered.
+    public requeue(queue: MemoryQueue, messages: QueuedMessage[]) {
+        if (!this.queues.has(queue.name)) {
+            return;
+        }
+
+        messages.forEach((message) => {
+            message.redelivered = true;
+            this.armExpiry(queue, message);
+        });
+        queue.messages.unshift(...messages);
+        this.dispatch(queue);
+    }
+
+    public deadLetter(queue: MemoryQueue, message: QueuedMessage, reason: 'rejected' | 'expired' | 'maxlen') {
+        const { deadLetterExchange, deadLetterRoutingKey } = queue.settings;
+        if (deadLetterExchange === undefined) {
+            return;
+        }
+
+        const previous: any[] = message.properties.headers['x-death'] || [];
+        const death = {
+            count: 1,
+            reason,
+            queue: queue.name,
+            time: Math.floor(Date.now() / 1000),
+            exchange: message.exchange,
+            'routing-keys': [message.routingKey],
+        };
+        const headers = { ...message.properties.headers, 'x-death': [death, ...previous] };
+        if (previous.length === 0) {
+            headers['x-first-death-exchange'] = message.exchange;
+            headers['x-first-death-queue'] = queue.name;
+            headers['x-first-death-reason'] = reason;
+        }
+
+        const properties = { ...message.properties, headers, expiration: undefined };
+        this.route(deadLetterExchange, [deadLetterRoutingKey ?? message.routingKey], message.content, properties);
+    }
+
+    public take(queue: MemoryQueue): QueuedMessage | undefined {
+        const message = queue.messages.shift();
+        if (message) {
+            this.clearExpiry(message);
+        }
+        return message;
+    }
+
+    public addConsumer(queue: MemoryQueue, consumer: Consumer) {
+        queue.consumers.push(consumer);
+        this.dispatch(queue);
+    }
+
+    public removeConsumer(tag: string) {
+        this.queues.forEach((queue) => {
+            const before = queue.consumers.length;
+            queue.consumers = queue.consumers.filter((consumer) => consumer.tag !== tag);
+            if (before > 0 && queue.consumers.length === 0 && queue.settings.autoDelete) {
+                this.deleteQueue(queue.name);
+            }
+        });
+    }
+
+    public dispatchAll() {
+        this.queues.forEach((queue) => this.dispatch(queue));
+    }
+
+    // Deliveries are asynchronous, as they are with a real broker.
+    public dispatch(queue: MemoryQueue) {
+        if (queue.dispatchScheduled) {
+            return;
+        }
+        queue.dispatchScheduled = true;
+
+        schedule(() => {
+            queue.dispatchScheduled = false;
+            this.doDispatch(queue);
+        });
+    }
+
+    private doDispatch(queue: MemoryQueue) {
+        while (queue.messages.length > 0 && this.queues.has(queue.name)) {
+            const consumer = this.nextConsumerWithCapacity(queue);
+            if (!consumer) {
+                return;
+            }
+
+            const message = this.take(queue) as QueuedMessage;
+            consumer.channel.deliver(consumer, queue, message);
+        }
+    }
+
+    // Round-robin among the consumers whose channel is below its prefetch limit.
+    private nextConsumerWithCapacity(queue: MemoryQueue): Consumer | undefined {
+        for (let i = 0; i < queue.consumers.length; i++) {
+            const index = (queue.nextConsumer + i) % queue.consumers.length;
+            const consumer = queue.consumers[index];
+            if (consumer.noAck || consumer.channel.hasCapacity()) {
+                queue.nextConsumer = index + 1;
+                return consumer;
+            }
+        }
+        return undefined;
+    }
+}
@@ -0,0 +1,208 @@
+import * as http from 'http';
+import { logger } from '@bisect/bisect-core-ts';
+
+export type Labels = Record<string, string>;
+
+type Series<Value> = { labels: Labels; value: Value };
+
+export interface ICounter {
+    inc(labels: Labels, value?: number): void;
+    values(): Series<number>[];
+}
+
+export interface IGauge {
+    set(labels: Labels, value: number): void;
+    inc(labels: Labels, value?: number): void;
+    values(): Series<number>[];
+}
+
+export interface IHistogram {
+    observe(labels: Labels, value: number): void;
+}
+
+type HistogramValue = { counts: number[]; sum: number; count: number };
+
+type Metric = {
+    name: string;
+    help: string;
+    type: 'counter' | 'gauge' | 'histogram';
+    render: () => string[];
+};
+
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+const escapeLabelValue = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+const formatLabels = (labels: Labels) => {
+    const names = Object.keys(labels).sort();
+    if (names.length === 0) {
+        return '';
+    }
+    return `{${names.map((name) => `${name}="${escapeLabelValue(labels[name])}"`).join(',')}}`;
+};
+
+const formatValue = (value: number) => (Number.isFinite(value) ? `${value}` : value > 0 ? '+Inf' : '-Inf');
+
+// One value per combination of labels, kept in the order in which they were first used.
+function createSeries<Value>(initial: () => Value) {
+    const series = new Map<string, Series<Value>>();
+
+    const get = (labels: Labels): Series<Value> => {
+        const key = formatLabels(labels);
+        let entry = series.get(key);
+        if (!entry) {
+            entry = { labels: { ...labels }, value: initial() };
+            series.set(key, entry);
+        }
+        return entry;
+    };
+
+    return {
+        get,
+        all: () => Array.from(series.values()),
+    };
+}
+
+/*
+    Counters, gauges and histograms, rendered in the Prometheus text exposition format.
+    The mq endpoints record theirs in metricsRegistry, labelled with the queue or exchange name as endpoint.
+*/
+export function createMetricsRegistry() {
+    const metrics = new Map<string, Metric>();
+
+    const add = <Instrument>(metric: Metric, instrument: Instrument): Instrument => {
+        if (metrics.has(metric.name)) {
+            throw new Error(`Metric ${metric.name} already registered`);
+        }
+        metrics.set(metric.name, metric);
+        return instrument;
+    };
+
+    const simpleValues = (name: string, series: { all: () => Series<number>[] }) => () =>
+        series.all().map((entry) => `${name}${formatLabels(entry.labels)} ${formatValue(entry.value)}`);
+
+    const counter = (name: string, help: string): ICounter => {
+        const series = createSeries(() => 0);
+        return add(
+            { name, help, type: 'counter', render: simpleValues(name, series) },
+            {
+                inc: (labels: Labels, value = 1) => {
+                    series.get(labels).value += value;
+                },
+                values: () => series.all().map((entry) => ({ ...entry })),
+            }
+        );
+    };
+
+    const gauge = (name: string, help: string): IGauge => {
+        const series = createSeries(() => 0);
+        return add(
+            { name, help, type: 'gauge', render: simpleValues(name, series) },
+            {
+                set: (labels: Labels, value: number) => {
+                    series.get(labels).value = value;
+                },
+                inc: (labels: Labels, value = 1) => {
+                    series.get(labels).value += value;
+                },
+                values: () => series.all().map((entry) => ({ ...entry })),
+            }
+        );
+    };
+
+    const histogram = (name: string, help: string, buckets: number[] = DEFAULT_BUCKETS): IHistogram => {
+        const bounds = [...buckets].sort((a, b) => a - b);
+        const series = createSeries<HistogramValue>(() => ({ counts: bounds.map(() => 0), sum: 0, count: 0 }));
+
+        const render = () => {
+            const lines: string[] = [];
+            series.all().forEach(({ labels, value }) => {
+                bounds.forEach((bound, index) => {
+                    const bucketLabels = formatLabels({ ...labels, le: formatValue(bound) });
+                    lines.push(`${name}_bucket${bucketLabels} ${value.counts[index]}`);
+                });
+                lines.push(`${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${value.count}`);
+                lines.push(`${name}_sum${formatLabels(labels)} ${value.sum}`);
+                lines.push(`${name}_count${formatLabels(labels)} ${value.count}`);
+            });
+            return lines;
+        };
+
+        return add(
+            { name, help, type: 'histogram', render },
+            {
+                observe: (labels: Labels, observed: number) => {
+                    const { value } = series.get(labels);
+                    bounds.forEach((bound, index) => {
+                        if (observed <= bound) {
+                            value.counts[index] += 1;
+                        }
+                    });
+                    value.sum += observed;
+                    value.count += 1;
+                },
+            }
+        );
+    };
+
+    const render = (): string =>
+        Array.from(metrics.values())
+            .map((metric) =>
+                [`# HELP ${metric.name} ${metric.help}`, `# TYPE ${metric.name} ${metric.type}`, ...metric.render()]
+                    .map((line) => `${line}\n`)
+                    .join('')
+            )
+            .join('');
+
+    return {
+        counter,
+        gauge,
+        histogram,
+        render,
+    };
+}
+
+export type MetricsRegistry = ReturnType<typeof createMetricsRegistry>;
+
+export const metricsRegistry = createMetricsRegistry();
+
+// The metrics recorded by the mq endpoints.
+export const mqMetrics = {
+    sent: metricsRegistry.counter('mq_messages_sent_total', 'Messages published'),
+    sendFailures: metricsRegistry.counter('mq_send_failures_total', 'Failed attempts to publish a message'),
+    buffered: metricsRegistry.gauge('mq_messages_buffered', 'Messages waiting in a sender buffer or outbox'),
+    dropped: metricsRegistry.counter('mq_messages_dropped_total', 'Messages discarded by a sender, by reason'),
+    received: metricsRegistry.counter('mq_messages_received_total', 'Messages delivered to a receiver'),
+    acked: metricsRegistry.counter('mq_messages_acked_total', 'Messages acked by a receiver'),
+    nacked: metricsRegistry.counter('mq_messages_nacked_total', 'Messages nacked, retried or dead-lettered'),
+    duplicates: metricsRegistry.counter('mq_messages_duplicate_total', 'Duplicate messages skipped by a receiver'),
+    reconnects: metricsRegistry.counter('mq_reconnects_total', 'Successful reconnections after a failure'),
+    handlerSeconds: metricsRegistry.histogram('mq_handler_duration_seconds', 'Time spent handling a message'),
+};
+
+// Serves the registry's metrics on path. Resolves when the server is listening.
+export async function startMetricsServer(port: number, registry: MetricsRegistry = metricsRegistry, path = '/metrics') {
+    const server = http.createServer((request, response) => {
+        if (request.method !== 'GET' || (request.url || '').split('?')[0] !== path) {
+            response.writeHead(404);
+            response.end();
+            return;
+        }
+
+        response.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+        response.end(registry.render());
+    });
+
+    await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, () => {
+            server.off('error', reject);
+            resolve();
+        });
+    });
+    logger.info(`Serving metrics on port ${port}${path}`);
+
+    return {
+        close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+    };
+}
@@ -0,0 +1,141 @@
+import path from 'path';
+import { logger } from '@bisect/bisect-core-ts';
+import { createDirectoryIfNeeded, readLinesIfExists } from '../fs';
+import { IPendingBuffer } from './buffer';
+import { createJournalWriter, journalEntries, toJournalLine } from './journal';
+import * as types from './types';
+
+type JournalEntry = { op: 'add'; id: number; msg: unknown } | { op: 'done'; id: number };
+
+// How messages are written to the journal and read back. By default, as they are.
+export interface IJournalCodec<MessageType> {
+    toJournal(content: MessageType): unknown;
+    fromJournal(stored: any): MessageType;
+}
+
+const identityCodec = {
+    toJournal: (content: any) => content,
+    fromJournal: (stored: any) => stored,
+};
+
+type PendingEntry<MessageType> = {
+    id: number;
+    msg: MessageType;
+    line: string;
+};
+
+const defaultMaxMessages = 10000;
+const defaultMaxBytes = 64 * 1024 * 1024;
+const defaultCompactAfter = 1000;
+
+const journalFileName = (name: string) => `${name.replace(/[^A-Za-z0-9._-]/g, '_')}.jsonl`;
+
+async function replay<MessageType>(
+    lines: AsyncIterable<string> | null,
+    codec: IJournalCodec<MessageType>
+): Promise<PendingEntry<MessageType>[]> {
+    const pending = new Map<number, PendingEntry<MessageType>>();
+    if (lines === null) {
+        return [];
+    }
+
+    const entries = journalEntries<JournalEntry>(lines, (lineNumber, err) =>
+        logger.error(`[Outbox] ignoring invalid journal line ${lineNumber}: ${err}`)
+    );
+    for await (const { entry, line } of entries) {
+        if (entry.op === 'add') {
+            pending.set(entry.id, { id: entry.id, msg: codec.fromJournal(entry.msg), line: `${line}\n` });
+        } else {
+            pending.delete(entry.id);
+        }
+    }
+
+    return Array.from(pending.values()).sort((a, b) => a.id - b.id);
+}
+
+/*
+    A pending buffer backed by an append-only journal in options.directory, one file per target.
+    Each buffered message is appended as an 'add' entry and each sent message as a 'done' entry.
+    Opening the outbox replays the journal, so messages not sent before the process stopped are sent again.
+    The journal is rewritten with only the pending messages after options.compactAfter 'done' entries.
+*/
+export async function openOutbox<MessageType>(
+    options: types.IOutboxOptions,
+    name: string,
+    codec: IJournalCodec<MessageType> = identityCodec
+): Promise<IPendingBuffer<MessageType>> {
+    const maxMessages = options.maxMessages ?? defaultMaxMessages;
+    const maxBytes = options.maxBytes ?? defaultMaxBytes;
+    const compactAfter = options.compactAfter ?? defaultCompactAfter;
+
+    await createDirectoryIfNeeded(options.directory);
+    const journalPath = path.join(options.directory, journalFileName(name));
+
+    const pending = await replay<MessageType>(await readLinesIfExists(journalPath), codec);
+    let pendingBytes = pending.reduce((total, entry) => total + Buffer.byteLength(entry.line), 0);
+    let nextId = pending.length > 0 ? pending[pending.length - 1].id + 1 : 1;
+    let doneSinceCompaction = 0;
+
+    if (pending.length > 0) {
+        logger.info(`[Outbox] ${name}: replaying ${pending.length} pending messages`);
+    }
+
+    const journal = createJournalWriter(journalPath);
+
+    const compact = async () => {
+        await journal.replace(pending.map((entry) => entry.line));
+        doneSinceCompaction = 0;
+    };
+
+    await compact();
+
+    const hasRoomFor = (content: MessageType) => {
+        const bytes = Buffer.byteLength(toJournalLine({ op: 'add', id: nextId, msg: codec.toJournal(content) }));
+        return pending.length < maxMessages && pendingBytes + bytes <= maxBytes;
+    };
+
+    const push = async (content: MessageType) => {
+        if (!hasRoomFor(content)) {
+            throw new Error(`Outbox for ${name} is full`);
+        }
+
+        const id = nextId++;
+        const line = toJournalLine({ op: 'add', id, msg: codec.toJournal(content) });
+        const bytes = Buffer.byteLength(line);
+
+        await journal.append(line);
+        pending.push({ id, msg: content, line });
+        pendingBytes += bytes;
+    };
+
+    const shift = async () => {
+        const head = pending.shift();
+        if (!head) {
+            return;
+        }
+        pendingBytes -= Buffer.byteLength(head.line);
+        doneSinceCompaction += 1;
+
+        if (pending.length === 0 || doneSinceCompaction >= compactAfter) {
+            await compact();
+        } else {
+            await journal.append(toJournalLine({ op: 'done', id: head.id }));
+        }
+    };
+
+    const clear = async () => {
+        pending.splice(0, pending.length);
+        pendingBytes = 0;
+        await compact();
+    };
+
+    return {
+        size: () => pending.length,
+        bytes: () => pendingBytes,
+        hasRoomFor,
+        push,
+        peek: () => (pending.length > 0 ? pending[0].msg : undefined),
+        shift,
+        clear,
+    };
+}
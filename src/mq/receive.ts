@@ -1,169 +1,821 @@
 import * as EventEmitter from 'events';
 import { logger } from '@bisect/bisect-core-ts';
-import { setupChannel, ChannelErrorCallback } from './common';
+import { setupChannel, createHealthChecker, waitWithTimeout, ChannelErrorCallback } from './common';
+import { registerEndpoint } from './shutdown';
 import { ConsumeMessage } from 'amqplib';
+import { ITransportChannel } from './transport';
+import { setupRetry } from './retry';
+import { toEnvelope } from './envelope';
+import { ICodec, decodeContent } from './codec';
+import { createDeduplicator } from './dedup';
+import { mqMetrics } from './metrics';
+import { runInMessageContext, traceLogger } from './trace';
+import { claimCheckReference, removePayload } from './claimCheck';
+import { createCaptureWriter } from './capture';
 import * as types from './types';
 
 type RawMessage = {
     msg: Buffer;
+    envelope: types.IEnvelope;
+    decode: () => any; // Throws if the content cannot be decoded
     ack: () => void;
+    nack: (requeue: boolean) => void;
+    // Only set when the receiver has a retry policy. Retries or dead-letters the message, which is then acked.
+    retry?: (reason: string) => Promise<void>;
 };
 
-type RawMessageCallback = (m: RawMessage) => void;
+// Receivers track the returned promise, if any, as in-flight work.
+type RawMessageCallback = (m: RawMessage) => void | Promise<void>;
 
-type BaseReceiverType = { close: () => void };
+type BaseReceiverType = {
+    close: () => void;
+    stopConsuming: () => Promise<void>;
+};
+
+const makeRawMessageBuilder = async (
+    channel: ITransportChannel,
+    queue: types.IQueueInfo,
+    retryPolicy: types.IRetryPolicy | undefined,
+    temporary: boolean,
+    codec: ICodec | undefined
+) => {
+    const onFailure = retryPolicy ? await setupRetry(channel, queue, retryPolicy, temporary) : undefined;
+
+    return (m: ConsumeMessage): RawMessage => ({
+        msg: m.content,
+        envelope: toEnvelope(m),
+        decode: () => decodeContent(m.content, m.properties.contentType, codec),
+        ack: () => channel.ack(m),
+        nack: (requeue: boolean) => channel.nack(m, false, requeue),
+        retry: onFailure ? (reason: string) => onFailure(m, reason) : undefined,
+    });
+};
+
+// Throws before anything connects, as the receivers would otherwise fail on every reconnection attempt.
+const checkReceiverOptions = (options: types.IReceiverOptions) => {
+    const { concurrency } = options;
+    if (concurrency !== undefined && (!Number.isInteger(concurrency) || concurrency < 1)) {
+        throw new Error(`Invalid concurrency: ${concurrency}`);
+    }
+};
+
+const prefetchCount = (options: types.IReceiverOptions) => options.concurrency ?? 1;
 
 /* 
-    onMessageCallback: ack MUST be called to confirm that the message has been processed.
+    onMessageCallback: ack or nack MUST be called to confirm that the message has been processed.
 */
 const doCreateQueueReceiver = async (
-    brokerUrl: string,
+    brokerUrl: types.BrokerAddress,
     queue: types.IQueueInfo,
     onMessageCallback: RawMessageCallback,
-    onChannelErrorCallback: ChannelErrorCallback
+    onChannelErrorCallback: ChannelErrorCallback,
+    options: types.IReceiverOptions
 ): Promise<BaseReceiverType> => {
-    const { channel, close } = await setupChannel(brokerUrl, onChannelErrorCallback);
+    const { channel, close } = await setupChannel(brokerUrl, onChannelErrorCallback, options);
+
+    // The channel is closed if anything fails once it is open, as the health checker opens a new one to retry.
+    try {
+        await channel.assertQueue(queue.name, queue.options);
+        const toRawMessage = await makeRawMessageBuilder(channel, queue, options.retry, false, options.codec);
 
-    await channel.assertQueue(queue.name, queue.options);
+        await channel.prefetch(prefetchCount(options));
+        logger.info(` [*] Waiting for messages in ${queue.name}`);
 
-    channel.prefetch(1);
-    logger.info(` [*] Waiting for messages in ${queue.name}`);
+        const onMessage = (m: ConsumeMessage | null) => {
+            if (!m) return;
 
-    const onMessage = (m: ConsumeMessage | null) => {
-        if (!m) return;
+            onMessageCallback(toRawMessage(m));
+        };
 
-        onMessageCallback({
-            msg: m.content,
-            ack: () => channel.ack(m),
+        const { consumerTag } = await channel.consume(queue.name, onMessage, {
+            noAck: false,
         });
+
+        return {
+            close: close,
+            stopConsuming: async () => {
+                await channel.cancel(consumerTag);
+            },
+        };
+    } catch (err) {
+        close();
+        throw err;
+    }
+};
+
+type KeyBinder = {
+    bind: (key: string) => Promise<void>;
+    unbind: (key: string) => Promise<void>;
+};
+
+/*
+    The routing keys of an exchange receiver. They outlive its channels: all of them are bound on each new channel,
+    and keys bound or unbound at runtime are applied to the current channel.
+    Keys unbound while there is no channel, or that the channel failed to unbind, are unbound from the next one,
+    as a subscription queue keeps its bindings across channels.
+*/
+function createBindings(keys: string[]) {
+    const bound = new Set(keys);
+    const unbound = new Set<string>();
+    let current: KeyBinder | null = null;
+
+    const attach = async (binder: KeyBinder) => {
+        current = binder;
+        for (const key of Array.from(unbound)) {
+            await binder.unbind(key);
+            unbound.delete(key);
+        }
+        await Promise.all(Array.from(bound).map((key) => binder.bind(key)));
     };
 
-    await channel.consume(queue.name, onMessage, {
-        noAck: false,
-    });
+    const detach = (binder: KeyBinder) => {
+        if (current === binder) {
+            current = null;
+        }
+    };
+
+    // Both reject if the current channel fails to apply the change. It is applied anyway on the next channel.
+    const bind = async (key: string) => {
+        bound.add(key);
+        unbound.delete(key);
+        if (current) {
+            await current.bind(key);
+        }
+    };
+
+    const unbind = async (key: string) => {
+        bound.delete(key);
+        unbound.add(key);
+        if (current) {
+            await current.unbind(key);
+            unbound.delete(key);
+        }
+    };
 
     return {
-        close: close,
+        attach,
+        detach,
+        controls: {
+            bind,
+            unbind,
+            keys: () => Array.from(bound),
+        },
     };
-};
+}
+
+type Bindings = ReturnType<typeof createBindings>;
 
 /* 
-    onMessageCallback: ack MUST be called to confirm that the message has been processed.
+    onMessageCallback: ack or nack MUST be called to confirm that the message has been processed.
 */
 const doCreateExchangeReceiver = async (
-    brokerUrl: string,
+    brokerUrl: types.BrokerAddress,
     exchangeInfo: types.IExchangeInfo,
-    topics: string[],
+    bindings: Bindings,
     onMessageCallback: RawMessageCallback,
-    onChannelErrorCallback: ChannelErrorCallback
+    onChannelErrorCallback: ChannelErrorCallback,
+    options: types.IReceiverOptions
 ): Promise<BaseReceiverType> => {
-    const { channel, close } = await setupChannel(brokerUrl, onChannelErrorCallback);
+    // Changes to the bindings are not applied to a dead channel, but kept for the next one.
+    let binder: KeyBinder | null = null;
+    const onChannelError = (reason?: string) => {
+        if (binder) {
+            bindings.detach(binder);
+        }
+        onChannelErrorCallback(reason);
+    };
+
+    const { channel, close } = await setupChannel(brokerUrl, onChannelError, options);
+
+    const closeChannel = () => {
+        if (binder) {
+            bindings.detach(binder);
+        }
+        close();
+    };
+
+    // The channel is closed if anything fails once it is open, as the health checker opens a new one to retry.
+    try {
+        await channel.assertExchange(exchangeInfo.name, exchangeInfo.type, exchangeInfo.options);
+
+        const { subscription } = options;
+        const queueName = subscription ? subscription.name : ''; // Server-named if there is no subscription
+        const queueOptions = subscription ? subscription.options || { durable: true } : { exclusive: true };
+        const q = await channel.assertQueue(queueName, queueOptions);
+        const subscriptionQueue = { name: q.queue, options: queueOptions };
+        const toRawMessage = await makeRawMessageBuilder(
+            channel,
+            subscriptionQueue,
+            options.retry,
+            !subscription,
+            options.codec
+        );
+
+        binder = {
+            bind: async (key: string) => {
+                await channel.bindQueue(q.queue, exchangeInfo.name, key);
+            },
+            unbind: async (key: string) => {
+                await channel.unbindQueue(q.queue, exchangeInfo.name, key);
+            },
+        };
+        await bindings.attach(binder);
+
+        await channel.prefetch(prefetchCount(options));
+        logger.info(` [*] Waiting for messages in exchange ${exchangeInfo.name}`);
+
+        const onMessage = (m: ConsumeMessage | null) => {
+            if (!m) return;
+
+            onMessageCallback(toRawMessage(m));
+        };
+
+        const { consumerTag } = await channel.consume(q.queue, onMessage, {
+            noAck: false,
+        });
+
+        return {
+            close: closeChannel,
+            stopConsuming: async () => {
+                await channel.cancel(consumerTag);
+            },
+        };
+    } catch (err) {
+        closeChannel();
+        throw err;
+    }
+};
+
+type ReceiverCreator = (m: RawMessageCallback, e: ChannelErrorCallback) => Promise<BaseReceiverType>;
+
+type ReceiverDefinition = {
+    name: string; // Queue or exchange name
+    options: types.IReceiverOptions;
+    create: ReceiverCreator;
+};
 
-    await channel.assertExchange(exchangeInfo.name, exchangeInfo.type, exchangeInfo.options);
+// Messages whose claim check payload cannot be read are requeued after this delay, so as not to be redelivered at once.
+const payloadRequeueDelayMs = 1000;
 
-    const queueName = ''; // unnamed queue
-    const queueOptions = { exclusive: true }; // unnamed queue
-    const q = await channel.assertQueue(queueName, queueOptions);
+/*
+    onClose is called when the receiver starts closing, before waiting for the in-flight handlers.
+    payloadFailure: what to do with a message whose claim check payload cannot be read, if it has no retry policy.
+*/
+function createGenericReceiver(
+    definition: ReceiverDefinition,
+    onMessage: RawMessageCallback,
+    onClose?: () => void,
+    payloadFailure: types.NackAction = 'requeue'
+) {
+    const inFlight = new Set<Promise<void>>();
+    const { orderingKey } = definition.options;
+
+    // Last message of each ordering key. The next message with the same key is handled after it.
+    const lastByKey = new Map<string, Promise<void>>();
+
+    const keyOf = (m: RawMessage) => {
+        try {
+            return orderingKey ? orderingKey(m.envelope) : undefined;
+        } catch (err) {
+            logger.error(`Error getting ordering key of message from ${definition.name}: ${err}`);
+            return undefined;
+        }
+    };
+
+    const { deduplication } = definition.options;
+    const deduplicator = deduplication ? createDeduplicator(definition.name, deduplication) : null;
+    const labels = { endpoint: definition.name };
+    let lastActivityAt: Date | undefined;
+
+    const { claimCheck, codec, capture } = definition.options;
+    const captureWriter = capture ? createCaptureWriter(definition.name, capture) : null;
+
+    /*
+        Removes the claim check payload once the message is acked, including when the deduplicator acks it.
+        Retried and rejected messages keep their payload, as they are published again or dead-lettered.
+    */
+    const removingPayload = (m: RawMessage): RawMessage => {
+        const reference = claimCheck ? claimCheckReference(m.envelope.headers) : undefined;
+        if (!claimCheck || reference === undefined || claimCheck.removeOnAck === false) {
+            return m;
+        }
+
+        return {
+            ...m,
+            ack: () => {
+                m.ack();
+                removePayload(claimCheck.store, reference);
+            },
+        };
+    };
+
+    const requeueLater = (m: RawMessage) =>
+        new Promise<void>((resolve) =>
+            setTimeout(() => {
+                try {
+                    m.nack(true);
+                } catch (err) {
+                    traceLogger.error(`Error nacking message: ${err}`);
+                }
+                resolve();
+            }, payloadRequeueDelayMs)
+        );
+
+    // Messages are retried if the receiver has a retry policy. Otherwise, they are rejected if the failure is
+    // permanent, and handled according to payloadFailure if not.
+    const payloadFailed = async (m: RawMessage, reason: string, permanent: boolean) => {
+        traceLogger.error(`${reason}, in message from ${definition.name}`);
+        try {
+            if (m.retry) {
+                await m.retry(reason);
+            } else if (permanent || payloadFailure === 'reject') {
+                m.nack(false);
+            } else {
+                await requeueLater(m);
+            }
+        } catch (err) {
+            traceLogger.error(`Error nacking message: ${err}`);
+        }
+    };
+
+    /*
+        Replaces the claim check reference with the payload. A missing payload is not coming back, for example once
+        another receiver of a fanout exchange removed it. Other errors, such as a shared directory being unavailable,
+        may be temporary.
+    */
+    const withPayload = async (m: RawMessage): Promise<RawMessage | null> => {
+        const reference = claimCheck ? claimCheckReference(m.envelope.headers) : undefined;
+        if (!claimCheck || reference === undefined) {
+            return m;
+        }
+
+        let content: Buffer | null;
+        try {
+            content = await claimCheck.store.get(reference);
+        } catch (err) {
+            await payloadFailed(m, `Error getting claim check payload: ${err}`, false);
+            return null;
+        }
+
+        if (content === null) {
+            await payloadFailed(m, `Claim check payload not found: ${reference}`, true);
+            return null;
+        }
 
-    topics.forEach(async (key) => await channel.bindQueue(q.queue, exchangeInfo.name, key));
+        const payload = content;
+        return {
+            ...m,
+            msg: payload,
+            envelope: { ...m.envelope, content: payload },
+            decode: () => decodeContent(payload, m.envelope.contentType, codec),
+        };
+    };
 
-    channel.prefetch(1);
-    logger.info(` [*] Waiting for messages in exchange ${exchangeInfo.name}`);
+    const run = async (delivered: RawMessage) => {
+        const start = Date.now();
+        try {
+            const m = await withPayload(delivered);
+            if (m) {
+                await onMessage(m);
+            }
+        } finally {
+            mqMetrics.handlerSeconds.observe(labels, (Date.now() - start) / 1000);
+        }
+    };
 
-    const onMessage = (m: ConsumeMessage | null) => {
-        if (!m) return;
+    const counted = (m: RawMessage): RawMessage => {
+        const { retry } = m;
+        return {
+            ...m,
+            ack: () => {
+                m.ack();
+                mqMetrics.acked.inc(labels);
+            },
+            nack: (requeue: boolean) => {
+                m.nack(requeue);
+                mqMetrics.nacked.inc(labels);
+            },
+            retry: retry
+                ? async (reason: string) => {
+                      await retry(reason);
+                      mqMetrics.nacked.inc(labels);
+                  }
+                : undefined,
+        };
+    };
+
+    // Messages are handled in their trace context, so that the lines logged while handling them carry its id.
+    const handle = (m: RawMessage) =>
+        runInMessageContext(m.envelope.headers, () =>
+            Promise.resolve()
+                .then(() => (deduplicator ? deduplicator.handle(m, run) : run(m)))
+                .catch((err) => traceLogger.error(`Error handling message: ${err}`))
+        );
+
+    const trackedOnMessage = (delivered: RawMessage) => {
+        mqMetrics.received.inc(labels);
+        lastActivityAt = new Date();
+        captureWriter?.capture(delivered.envelope);
+        const m = removingPayload(counted(delivered));
+        const key = keyOf(m);
+        const previous = key === undefined ? undefined : lastByKey.get(key);
+        const work = previous ? previous.then(() => handle(m)) : handle(m);
+
+        if (key !== undefined) {
+            lastByKey.set(key, work);
+            work.then(() => {
+                if (lastByKey.get(key) === work) {
+                    lastByKey.delete(key);
+                }
+            });
+        }
+
+        inFlight.add(work);
+        const done = () => {
+            inFlight.delete(work);
+        };
+        work.then(done, done);
+    };
 
-        onMessageCallback({
-            msg: m.content,
-            ack: () => channel.ack(m),
+    const healthChecker = createHealthChecker(
+        definition.name,
+        (onChannelError: ChannelErrorCallback) => definition.create(trackedOnMessage, onChannelError),
+        definition.options.reconnectionPolicy
+    );
+
+    /*
+        Stops consuming, waits for the in-flight handlers to finish, up to timeoutMs, and then closes the channel.
+        Messages not acked by then are redelivered by the broker.
+    */
+    const close = async (options: types.ICloseOptions = {}) => {
+        unregister();
+        const timeoutMs = options.timeoutMs ?? types.DEFAULT_CLOSE_TIMEOUT_MS;
+        if (onClose) {
+            onClose();
+        }
+
+        await healthChecker.close(async (receiver: BaseReceiverType) => {
+            await receiver.stopConsuming();
+            if (!(await waitWithTimeout(Promise.all(Array.from(inFlight)), timeoutMs))) {
+                logger.error(`Closing ${definition.name} with ${inFlight.size} messages still being handled`);
+            }
         });
+        await captureWriter?.flush();
     };
 
-    await channel.consume(q.queue, onMessage, {
-        noAck: false,
+    const status = (): types.IEndpointStatus => ({
+        name: definition.name,
+        ...healthChecker.status(),
+        lastActivityAt,
+        buffered: inFlight.size,
     });
 
+    const unregister = registerEndpoint({ name: definition.name, close, status });
+
     return {
-        close: close,
+        close,
+        status,
     };
-};
+}
 
-function createGenericReceiver<
-    ReceiverType extends BaseReceiverType,
-    CreatorType extends (m: RawMessageCallback, e: ChannelErrorCallback) => Promise<ReceiverType>
->(creator: CreatorType) {
+function createEmitterReceiver(definition: ReceiverDefinition) {
     const emitter = new EventEmitter.EventEmitter();
-    const onMessage = (m: RawMessage) => {
+
+    // Returns the envelope with body set, or null if the message cannot be decoded.
+    const decode = (m: RawMessage): types.IEnvelope | null => {
+        try {
+            return { ...m.envelope, body: m.decode() };
+        } catch (err) {
+            traceLogger.error(`Error decoding message from ${definition.name}: ${err}`);
+            emitter.emit(onDecodeErrorKey, err, m.envelope);
+            return null;
+        }
+    };
+
+    let iterator: MessageIterator | null = null;
+
+    // Messages are only decoded if there are onDecoded listeners or the receiver is being iterated.
+    const dispatch = (m: RawMessage) => {
         emitter.emit(onMessageKey, m.msg);
-        m.ack();
+        emitter.emit(onEnvelopeKey, m.envelope);
+
+        const decoded = emitter.listenerCount(onDecodedKey) > 0 || iterator ? decode(m) : undefined;
+        if (decoded) {
+            emitter.emit(onDecodedKey, decoded.body, decoded);
+        }
+
+        if (iterator && decoded) {
+            return iterator.push(m, decoded);
+        }
+
+        if (iterator) {
+            // Decoding would fail again if the message was requeued.
+            m.nack(false);
+        } else {
+            m.ack();
+        }
     };
 
-    let receiver: ReceiverType | null = null;
+    // A listener that throws leaves the message unsettled, which would stop the deliveries once prefetch is reached.
+    const onMessage = (m: RawMessage) => {
+        try {
+            return dispatch(m);
+        } catch (err) {
+            traceLogger.error(`Error in listener of ${definition.name}: ${err}. Rejecting the message.`);
+            try {
+                m.nack(false);
+            } catch (nackErr) {
+                traceLogger.error(`Error nacking message: ${nackErr}`);
+            }
+        }
+    };
 
-    const healthChecker = async () => {
-        if (receiver !== null || creatingNow) {
-            return;
+    const { close, status } = createGenericReceiver(definition, onMessage, () => iterator?.finish());
+
+    /*
+        While the receiver is being iterated, each message is acked when the next one is requested, that is,
+        when the body of the for await loop finishes. Leaving the loop closes the receiver, and requeues the current
+        message, as the loop may have been left with break or return before it was handled, or because the body threw.
+    */
+    const iterate = (): AsyncIterableIterator<types.IEnvelope> => {
+        if (iterator) {
+            throw new Error(`${definition.name} is already being iterated`);
         }
 
-        logger.info('Health checker: trying to create receiver');
+        iterator = createMessageIterator(definition.name, () => close());
+        return iterator.iterator;
+    };
+
+    return {
+        emitter,
+        close,
+        status,
+        [Symbol.asyncIterator]: iterate,
+    };
+}
+
+type PendingMessage = {
+    m: RawMessage;
+    envelope: types.IEnvelope;
+    done: () => void; // Ends the in-flight work of the message
+};
+
+type MessageIterator = ReturnType<typeof createMessageIterator>;
+
+function createMessageIterator(name: string, close: () => Promise<void>) {
+    const pending: PendingMessage[] = [];
+    let current: PendingMessage | null = null;
+    let waiting: ((result: IteratorResult<types.IEnvelope>) => void) | null = null;
+    let finished = false;
+
+    const settle = (message: PendingMessage, ack: boolean) => {
         try {
-            creatingNow = true;
-            receiver = await creator(onMessage, onChannelError);
+            if (ack) {
+                message.m.ack();
+            } else {
+                message.m.nack(true);
+            }
         } catch (err) {
-            logger.error(`Error connecting to AMQP broker: ${err}`);
-            receiver = null;
-        } finally {
-            creatingNow = false;
+            logger.error(`Error ${ack ? 'acking' : 'nacking'} message from ${name}: ${err}`);
         }
+        message.done();
     };
 
-    let healthCheckerTimerId: NodeJS.Timeout | null = null;
-    const healthCheckInterval = 1000;
-    let creatingNow = false;
+    const settleCurrent = (ack: boolean) => {
+        if (current) {
+            settle(current, ack);
+            current = null;
+        }
+    };
+
+    const yieldMessage = (message: PendingMessage): IteratorResult<types.IEnvelope> => {
+        current = message;
+        return { done: false, value: message.envelope };
+    };
 
-    const startHealthChecker = () => {
-        if (healthCheckerTimerId !== null) {
+    // Resolves when the message has been acked or given back to the broker.
+    const push = (m: RawMessage, envelope: types.IEnvelope) =>
+        new Promise<void>((done) => {
+            const message = { m, envelope, done };
+            if (finished) {
+                settle(message, false);
+            } else if (waiting) {
+                const resolve = waiting;
+                waiting = null;
+                resolve(yieldMessage(message));
+            } else {
+                pending.push(message);
+            }
+        });
+
+    // Stops yielding messages. The ones not yielded yet are requeued.
+    const finish = () => {
+        if (finished) {
             return;
         }
 
-        healthCheckerTimerId = setInterval(healthChecker, healthCheckInterval);
+        finished = true;
+        pending.splice(0).forEach((message) => settle(message, false));
+        if (waiting) {
+            const resolve = waiting;
+            waiting = null;
+            resolve({ done: true, value: undefined });
+        }
+    };
+
+    const iterator: AsyncIterableIterator<types.IEnvelope> = {
+        next: async () => {
+            settleCurrent(true);
+            if (finished) {
+                return { done: true, value: undefined };
+            }
+
+            const message = pending.shift();
+            if (message) {
+                return yieldMessage(message);
+            }
+
+            return new Promise<IteratorResult<types.IEnvelope>>((resolve) => {
+                waiting = resolve;
+            });
+        },
+        return: async () => {
+            settleCurrent(false);
+            finish();
+            await close();
+            return { done: true, value: undefined };
+        },
+        [Symbol.asyncIterator]: () => iterator,
     };
 
-    const onChannelError = () => {
-        logger.error('Channel error');
-        receiver = null;
+    return {
+        push,
+        finish,
+        iterator,
     };
+}
 
-    const doClose = () => {
-        if (healthCheckerTimerId) {
-            clearInterval(healthCheckerTimerId);
+/*
+    The message is acked only after the handler resolves.
+    If the handler rejects, the message is nacked and either requeued or rejected, according to options.onFailure.
+    Messages that cannot be decoded, or that validate does not accept, are rejected without calling the handler,
+    since retrying them would fail again.
+*/
+function createHandlerReceiver(
+    definition: ReceiverDefinition,
+    handler: types.MessageHandler,
+    options: types.IConsumerOptions,
+    validate?: (body: any) => boolean
+) {
+    const reject = (m: RawMessage, reason: string) => {
+        traceLogger.error(`${reason}. Rejecting it.`);
+        try {
+            m.nack(false);
+        } catch (err) {
+            traceLogger.error(`Error nacking message: ${err}`);
         }
-        healthCheckerTimerId = null;
-        if (receiver) {
-            receiver.close();
+    };
+
+    const onMessage = async (m: RawMessage) => {
+        let body: any;
+        try {
+            body = m.decode();
+        } catch (err) {
+            reject(m, `Error decoding message from ${definition.name}: ${err}`);
+            return;
+        }
+
+        if (validate && !validate(body)) {
+            reject(m, `Invalid message from ${definition.name}`);
+            return;
+        }
+
+        try {
+            await handler(m.msg, { ...m.envelope, body });
+        } catch (err) {
+            traceLogger.error(`Error handling message: ${err}`);
+            try {
+                if (m.retry) {
+                    await m.retry(`${err}`);
+                } else {
+                    m.nack(options.onFailure === 'requeue');
+                }
+            } catch (nackErr) {
+                traceLogger.error(`Error nacking message: ${nackErr}`);
+            }
+            return;
+        }
+
+        try {
+            m.ack();
+        } catch (err) {
+            traceLogger.error(`Error acking message: ${err}`);
         }
     };
 
-    startHealthChecker();
+    return createGenericReceiver(definition, onMessage, undefined, options.onFailure);
+}
 
+const queueReceiverDefinition = (
+    brokerUrl: types.BrokerAddress,
+    queue: types.IQueueInfo,
+    options: types.IReceiverOptions
+): ReceiverDefinition => {
+    checkReceiverOptions(options);
     return {
-        emitter,
-        close: doClose,
+        name: queue.name,
+        options,
+        create: async (onMessage: RawMessageCallback, onChannelError: ChannelErrorCallback) =>
+            doCreateQueueReceiver(brokerUrl, queue, onMessage, onChannelError, options),
     };
-}
+};
+
+const exchangeReceiverDefinition = (
+    brokerUrl: types.BrokerAddress,
+    exchangeInfo: types.IExchangeInfo,
+    bindings: Bindings,
+    options: types.IReceiverOptions
+): ReceiverDefinition => {
+    checkReceiverOptions(options);
+    return {
+        name: options.subscription?.name || exchangeInfo.name,
+        options,
+        create: async (onMessage: RawMessageCallback, onChannelError: ChannelErrorCallback) =>
+            doCreateExchangeReceiver(brokerUrl, exchangeInfo, bindings, onMessage, onChannelError, options),
+    };
+};
+
+// The receiver is bound to topics, or to the exchange's keys if there are none.
+const exchangeBindings = (exchangeInfo: types.IExchangeInfo, topics: string[]) =>
+    createBindings(topics.length > 0 ? topics : exchangeInfo.keys || []);
 
-export const createQueueReceiver = (brokerUrl: string, queue: types.IQueueInfo) => {
-    const creator = async (onMessage: RawMessageCallback, onChannelError: ChannelErrorCallback) =>
-        doCreateQueueReceiver(brokerUrl, queue, onMessage, onChannelError);
+export const createQueueReceiver = (
+    brokerUrl: types.BrokerAddress,
+    queue: types.IQueueInfo,
+    options: types.IReceiverOptions = {}
+) => createEmitterReceiver(queueReceiverDefinition(brokerUrl, queue, options));
 
-    return createGenericReceiver(creator);
+export const createExchangeReceiver = (
+    brokerUrl: types.BrokerAddress,
+    exchangeInfo: types.IExchangeInfo,
+    topics: string[],
+    options: types.IReceiverOptions = {}
+) => {
+    const bindings = exchangeBindings(exchangeInfo, topics);
+    return {
+        ...createEmitterReceiver(exchangeReceiverDefinition(brokerUrl, exchangeInfo, bindings, options)),
+        ...bindings.controls,
+    };
 };
 
-export const createExchangeReceiver = (brokerUrl: string, exchangeInfo: types.IExchangeInfo, topics: string[]) => {
-    const creator = async (onMessage: RawMessageCallback, onChannelError: ChannelErrorCallback) =>
-        doCreateExchangeReceiver(brokerUrl, exchangeInfo, topics, onMessage, onChannelError);
+export const defaultConsumerOptions: types.IConsumerOptions = { onFailure: 'requeue' };
 
-    return createGenericReceiver(creator);
+export const createQueueConsumer = (
+    brokerUrl: types.BrokerAddress,
+    queue: types.IQueueInfo,
+    handler: types.MessageHandler,
+    options: types.IConsumerOptions = defaultConsumerOptions
+) => createHandlerReceiver(queueReceiverDefinition(brokerUrl, queue, options), handler, options);
+
+export const createExchangeConsumer = (
+    brokerUrl: types.BrokerAddress,
+    exchangeInfo: types.IExchangeInfo,
+    topics: string[],
+    handler: types.MessageHandler,
+    options: types.IConsumerOptions = defaultConsumerOptions
+) => {
+    const bindings = exchangeBindings(exchangeInfo, topics);
+    return {
+        ...createHandlerReceiver(
+            exchangeReceiverDefinition(brokerUrl, exchangeInfo, bindings, options),
+            handler,
+            options
+        ),
+        ...bindings.controls,
+    };
 };
 
-export const onMessageKey = 'onMessage';
+// Consumes the messages of a channel. Exchange channels are bound to the exchange's keys.
+export function createChannelConsumer<Payload>(
+    brokerUrl: types.BrokerAddress,
+    channel: types.Channel<Payload>,
+    handler: types.ChannelHandler<Payload>,
+    options: types.IConsumerOptions = defaultConsumerOptions
+) {
+    const definition =
+        channel.type === 'queue'
+            ? queueReceiverDefinition(brokerUrl, channel.queue, options)
+            : exchangeReceiverDefinition(brokerUrl, channel.exchange, exchangeBindings(channel.exchange, []), options);
+
+    return createHandlerReceiver(
+        definition,
+        (msg: Buffer, envelope: types.IEnvelope) => handler(envelope.body, envelope),
+        options,
+        channel.validate
+    );
+}
+
+export const onMessageKey = 'onMessage'; // Emits the message content, as a Buffer
+export const onEnvelopeKey = 'onEnvelope'; // Emits the message as an IEnvelope
+export const onDecodedKey = 'onDecoded'; // Emits the decoded content and the IEnvelope, with body set
+export const onDecodeErrorKey = 'onDecodeError'; // Emits the decoding error and the IEnvelope
@@ -0,0 +1,143 @@
+import * as EventEmitter from 'events';
+import { logger } from '@bisect/bisect-core-ts';
+import { mqMetrics } from './metrics';
+
+export interface IReconnectionSettings {
+    initialDelayMs: number;
+    multiplier: number;
+    maxDelayMs: number;
+    jitter: number; // Fraction of the delay, between 0 and 1, added or subtracted at random
+    maxAttempts?: number; // Unlimited if not set
+}
+
+export interface IReconnectionEvent {
+    endpoint: string; // Queue or exchange name
+    attempt: number;
+    delayMs?: number; // Only in reconnecting events
+}
+
+export const reconnectingKey = 'reconnecting';
+export const reconnectedKey = 'reconnected';
+export const gaveUpKey = 'gaveUp';
+
+// Retries every second, forever.
+const defaultSettings: IReconnectionSettings = {
+    initialDelayMs: 1000,
+    multiplier: 1,
+    maxDelayMs: 1000,
+    jitter: 0,
+};
+
+/*
+    Shared by any number of endpoints. Emits reconnectingKey, reconnectedKey and gaveUpKey with an IReconnectionEvent.
+*/
+export class ReconnectionPolicy extends EventEmitter.EventEmitter {
+    public readonly settings: IReconnectionSettings;
+
+    constructor(settings: Partial<IReconnectionSettings> = {}) {
+        super();
+        this.settings = { ...defaultSettings, ...settings };
+    }
+
+    // attempt starts at 1
+    public delayFor(attempt: number): number {
+        const { initialDelayMs, multiplier, maxDelayMs, jitter } = this.settings;
+        const delay = Math.min(initialDelayMs * Math.pow(multiplier, attempt - 1), maxDelayMs);
+        const spread = delay * jitter * (2 * Math.random() - 1);
+        return Math.max(0, Math.round(delay + spread));
+    }
+
+    public shouldGiveUp(attempt: number): boolean {
+        const { maxAttempts } = this.settings;
+        return maxAttempts !== undefined && attempt > maxAttempts;
+    }
+}
+
+export const defaultReconnectionPolicy = new ReconnectionPolicy();
+
+/*
+    Calls attempt, with the delays of the policy, until it returns true or the policy gives up.
+*/
+export function createBackoffTimer(
+    policy: ReconnectionPolicy,
+    endpoint: string,
+    attempt: () => Promise<boolean>,
+    onGaveUp?: () => void
+) {
+    let timerId: NodeJS.Timeout | null = null;
+    let running = false;
+    let stopped = false;
+    let attempts = 0;
+
+    const schedule = () => {
+        attempts += 1;
+
+        if (policy.shouldGiveUp(attempts)) {
+            logger.error(`[AMQP] ${endpoint}: giving up after ${attempts - 1} attempts`);
+            const event: IReconnectionEvent = { endpoint, attempt: attempts - 1 };
+            attempts = 0;
+            policy.emit(gaveUpKey, event);
+            if (onGaveUp) {
+                onGaveUp();
+            }
+            return;
+        }
+
+        const delayMs = policy.delayFor(attempts);
+        const event: IReconnectionEvent = { endpoint, attempt: attempts, delayMs };
+        policy.emit(reconnectingKey, event);
+
+        timerId = setTimeout(run, delayMs);
+    };
+
+    const run = async () => {
+        timerId = null;
+        running = true;
+        let succeeded = false;
+        try {
+            succeeded = await attempt();
+        } catch (err) {
+            logger.error(`[AMQP] ${endpoint}: reconnection attempt failed: ${err}`);
+        } finally {
+            running = false;
+        }
+
+        if (stopped) {
+            return;
+        }
+
+        if (succeeded) {
+            mqMetrics.reconnects.inc({ endpoint });
+            const event: IReconnectionEvent = { endpoint, attempt: attempts };
+            attempts = 0;
+            policy.emit(reconnectedKey, event);
+            return;
+        }
+
+        schedule();
+    };
+
+    const start = () => {
+        stopped = false;
+        if (timerId !== null || running) {
+            return;
+        }
+
+        schedule();
+    };
+
+    const stop = () => {
+        stopped = true;
+        if (timerId !== null) {
+            clearTimeout(timerId);
+        }
+        timerId = null;
+        attempts = 0;
+    };
+
+    return {
+        start,
+        stop,
+        isActive: () => timerId !== null || running,
+    };
+}
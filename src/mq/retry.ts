@@ -0,0 +1,117 @@
+import { ConsumeMessage, Options } from 'amqplib';
+import { ITransportChannel } from './transport';
+import { traceLogger } from './trace';
+import * as types from './types';
+
+export const retryCountHeader = 'x-retry-count';
+export const lastErrorHeader = 'x-last-error';
+export const failureReasonHeader = 'x-failure-reason';
+export const attemptsHeader = 'x-attempts';
+
+export type FailureCallback = (m: ConsumeMessage, reason: string) => Promise<void>;
+
+const republishOptions = (m: ConsumeMessage, headers: Record<string, any>): Options.Publish => {
+    const { properties } = m;
+    return {
+        contentType: properties.contentType,
+        contentEncoding: properties.contentEncoding,
+        correlationId: properties.correlationId,
+        replyTo: properties.replyTo,
+        messageId: properties.messageId,
+        timestamp: properties.timestamp,
+        type: properties.type,
+        appId: properties.appId,
+        priority: properties.priority,
+        persistent: properties.deliveryMode === 2,
+        headers: { ...properties.headers, ...headers },
+    };
+};
+
+export const retryDelayMs = (policy: types.IRetryPolicy, attempt: number): number => {
+    const delay = policy.initialDelayMs * Math.pow(policy.multiplier, attempt - 1);
+    return Math.round(policy.maxDelayMs !== undefined ? Math.min(delay, policy.maxDelayMs) : delay);
+};
+
+// Queue names starting with 'amq.' (e.g. server-named queues) are reserved and cannot be declared by clients.
+const delayQueueName = (queueName: string, delayMs: number) => {
+    const reserved = 'amq.';
+    const base = queueName.startsWith(reserved) ? queueName.substring(reserved.length) : queueName;
+    return `${base}.retry.${delayMs}`;
+};
+
+/*
+    Asserts the delay queues and dead-letter target for a queue and returns the callback to call when a message fails.
+    Delay queues have a TTL and dead-letter back into the source queue through the default exchange.
+    The failed message is republished before being acked, so it is never lost while the channel is up.
+    temporary: the source queue is exclusive, so delay queues expire when unused.
+*/
+export async function setupRetry(
+    channel: ITransportChannel,
+    queue: types.IQueueInfo,
+    policy: types.IRetryPolicy,
+    temporary: boolean
+): Promise<FailureCallback> {
+    const delayQueues = new Set<string>();
+
+    const assertDelayQueue = async (delayMs: number): Promise<string> => {
+        const name = delayQueueName(queue.name, delayMs);
+        if (!delayQueues.has(name)) {
+            const expires = temporary ? { expires: delayMs * 2 + 60000 } : {};
+            await channel.assertQueue(name, {
+                durable: queue.options.durable,
+                messageTtl: delayMs,
+                deadLetterExchange: '',
+                deadLetterRoutingKey: queue.name,
+                ...expires,
+            });
+            delayQueues.add(name);
+        }
+        return name;
+    };
+
+    const { deadLetter } = policy;
+    if (deadLetter) {
+        const { exchange } = deadLetter;
+        await channel.assertExchange(exchange.name, exchange.type, exchange.options);
+        if (deadLetter.queue) {
+            await channel.assertQueue(deadLetter.queue.name, deadLetter.queue.options);
+            await channel.bindQueue(deadLetter.queue.name, exchange.name, deadLetter.routingKey);
+        }
+    }
+
+    const deadLetterExchange = deadLetter ? deadLetter.exchange.name : queue.options.deadLetterExchange;
+
+    return async (m: ConsumeMessage, reason: string) => {
+        const previousRetries: number = (m.properties.headers || {})[retryCountHeader] || 0;
+        const attempt = previousRetries + 1;
+
+        if (attempt < policy.maxAttempts) {
+            const name = await assertDelayQueue(retryDelayMs(policy, attempt));
+            channel.sendToQueue(
+                name,
+                m.content,
+                republishOptions(m, { [retryCountHeader]: attempt, [lastErrorHeader]: reason })
+            );
+            channel.ack(m);
+            return;
+        }
+
+        if (deadLetterExchange === undefined) {
+            traceLogger.error(`Message in ${queue.name} failed after ${attempt} attempts. Discarded: ${reason}`);
+            channel.nack(m, false, false);
+            return;
+        }
+
+        traceLogger.error(`Message in ${queue.name} failed after ${attempt} attempts. Dead-lettered: ${reason}`);
+        const routingKey = deadLetter
+            ? deadLetter.routingKey
+            : queue.options.deadLetterRoutingKey || m.fields.routingKey;
+        channel.publish(
+            deadLetterExchange,
+            routingKey,
+            m.content,
+            republishOptions(m, { [failureReasonHeader]: reason, [attemptsHeader]: attempt })
+        );
+        channel.ack(m);
+    };
+}
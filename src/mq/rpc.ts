@@ -0,0 +1,282 @@
+import { randomBytes } from 'crypto';
+import { logger } from '@bisect/bisect-core-ts';
+import { ConsumeMessage } from 'amqplib';
+import { ITransportChannel } from './transport';
+import { setupChannel, createHealthChecker, waitWithTimeout, ChannelErrorCallback } from './common';
+import { registerEndpoint } from './shutdown';
+import { injectTraceHeaders, runInMessageContext, traceLogger } from './trace';
+import * as types from './types';
+
+type RpcReply = { ok: true; result: any } | { ok: false; error: string };
+
+type PendingCall = {
+    resolve: (result: any) => void;
+    reject: (err: Error) => void;
+    timerId: NodeJS.Timeout;
+};
+
+type RpcClientChannel = {
+    channel: ITransportChannel;
+    replyQueue: string;
+    assertedQueues: Set<string>;
+    close: () => void;
+};
+
+const createCorrelationId = () => randomBytes(16).toString('hex');
+
+const encode = (content: any) => Buffer.from(JSON.stringify(content));
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : `${err}`);
+
+const doCreateRpcClientChannel = async (
+    brokerUrl: types.BrokerAddress,
+    onReply: (m: ConsumeMessage) => void,
+    onChannelErrorCallback: ChannelErrorCallback,
+    options: types.IEndpointOptions
+): Promise<RpcClientChannel> => {
+    const { channel, close } = await setupChannel(brokerUrl, onChannelErrorCallback, options);
+
+    const queueName = ''; // unnamed queue
+    const queueOptions = { exclusive: true }; // unnamed queue
+    const q = await channel.assertQueue(queueName, queueOptions);
+
+    const onMessage = (m: ConsumeMessage | null) => {
+        if (!m) return;
+        onReply(m);
+    };
+
+    await channel.consume(q.queue, onMessage, {
+        noAck: true,
+    });
+
+    return {
+        channel,
+        replyQueue: q.queue,
+        assertedQueues: new Set<string>(),
+        close,
+    };
+};
+
+/*
+    Replies are received on an exclusive queue. If the channel is lost, that queue is deleted by the broker,
+    so calls in flight at that time are rejected. New calls use the channel created by the health checker.
+*/
+export const createRpcClient = (brokerUrl: types.BrokerAddress, options: types.IEndpointOptions = {}) => {
+    const pendingCalls = new Map<string, PendingCall>();
+
+    const settle = (correlationId: string): PendingCall | undefined => {
+        const pending = pendingCalls.get(correlationId);
+        if (pending) {
+            clearTimeout(pending.timerId);
+            pendingCalls.delete(correlationId);
+        }
+        return pending;
+    };
+
+    const rejectAll = (reason: string) => {
+        Array.from(pendingCalls.keys()).forEach((correlationId) => settle(correlationId)?.reject(new Error(reason)));
+    };
+
+    let lastActivityAt: Date | undefined;
+
+    const onReply = (m: ConsumeMessage) => {
+        lastActivityAt = new Date();
+        const pending = settle(m.properties.correlationId);
+        if (!pending) {
+            logger.error(`[RPC] reply with unknown correlation id: ${m.properties.correlationId}`);
+            return;
+        }
+
+        try {
+            const reply: RpcReply = JSON.parse(m.content.toString());
+            if (reply.ok) {
+                pending.resolve(reply.result);
+            } else {
+                pending.reject(new Error(reply.error));
+            }
+        } catch (err) {
+            pending.reject(new Error(`Invalid RPC reply: ${errorMessage(err)}`));
+        }
+    };
+
+    const healthChecker = createHealthChecker(
+        'rpc-client',
+        (onChannelError: ChannelErrorCallback) =>
+            doCreateRpcClientChannel(
+                brokerUrl,
+                onReply,
+                (reason?: string) => {
+                    rejectAll('RPC channel lost');
+                    onChannelError(reason);
+                },
+                options
+            ),
+        options.reconnectionPolicy
+    );
+
+    const call = async <ReplyType>(
+        target: types.IQueueInfo,
+        payload: any,
+        options: types.IRpcCallOptions
+    ): Promise<ReplyType> => {
+        const current = await healthChecker.acquire();
+        if (!current) {
+            throw new Error('RPC client not connected');
+        }
+
+        if (!current.assertedQueues.has(target.name)) {
+            await current.channel.assertQueue(target.name, target.options);
+            current.assertedQueues.add(target.name);
+        }
+
+        const correlationId = createCorrelationId();
+
+        return new Promise<ReplyType>((resolve, reject) => {
+            const timerId = setTimeout(() => {
+                settle(correlationId);
+                reject(new Error(`RPC call to ${target.name} timed out after ${options.timeoutMs} ms`));
+            }, options.timeoutMs);
+
+            pendingCalls.set(correlationId, { resolve, reject, timerId });
+
+            current.channel.sendToQueue(target.name, encode(payload), {
+                correlationId,
+                replyTo: current.replyQueue,
+                expiration: options.timeoutMs,
+                headers: injectTraceHeaders(),
+            });
+        });
+    };
+
+    // Calls in flight are rejected. There is nothing to drain, so options are ignored.
+    const close = async (_options: types.ICloseOptions = {}) => {
+        unregister();
+        rejectAll('RPC client closed');
+        await healthChecker.close();
+    };
+
+    const status = (): types.IEndpointStatus => ({
+        name: 'rpc-client',
+        ...healthChecker.status(),
+        lastActivityAt,
+        buffered: pendingCalls.size,
+    });
+
+    const unregister = registerEndpoint({ name: 'rpc-client', close, status });
+
+    return {
+        call,
+        close,
+        status,
+    };
+};
+
+const doCreateRpcServer = async <RequestType, ReplyType>(
+    brokerUrl: types.BrokerAddress,
+    queue: types.IQueueInfo,
+    handler: types.RpcHandler<RequestType, ReplyType>,
+    track: (work: Promise<void>) => void,
+    onChannelErrorCallback: ChannelErrorCallback,
+    options: types.IEndpointOptions
+) => {
+    const { channel, close } = await setupChannel(brokerUrl, onChannelErrorCallback, options);
+
+    await channel.assertQueue(queue.name, queue.options);
+
+    channel.prefetch(1);
+    logger.info(` [*] Waiting for RPC requests in ${queue.name}`);
+
+    const handle = async (m: ConsumeMessage): Promise<RpcReply> => {
+        try {
+            const request: RequestType = JSON.parse(m.content.toString());
+            return { ok: true, result: await handler(request) };
+        } catch (err) {
+            traceLogger.error(`[RPC] error handling request in ${queue.name}: ${errorMessage(err)}`);
+            return { ok: false, error: errorMessage(err) };
+        }
+    };
+
+    const processMessage = async (m: ConsumeMessage) => {
+        const reply = await handle(m);
+        const { replyTo, correlationId } = m.properties;
+
+        if (replyTo) {
+            channel.sendToQueue(replyTo, encode(reply), { correlationId });
+        } else {
+            traceLogger.error(`[RPC] request in ${queue.name} without replyTo. Reply discarded.`);
+        }
+
+        channel.ack(m);
+    };
+
+    const onMessage = (m: ConsumeMessage | null) => {
+        if (!m) return;
+
+        track(runInMessageContext(m.properties.headers, () => processMessage(m)));
+    };
+
+    const { consumerTag } = await channel.consume(queue.name, onMessage, {
+        noAck: false,
+    });
+
+    return {
+        close: close,
+        stopConsuming: async () => {
+            await channel.cancel(consumerTag);
+        },
+    };
+};
+
+export const createRpcServer = <RequestType, ReplyType>(
+    brokerUrl: types.BrokerAddress,
+    queue: types.IQueueInfo,
+    handler: types.RpcHandler<RequestType, ReplyType>,
+    options: types.IEndpointOptions = {}
+) => {
+    const inFlight = new Set<Promise<void>>();
+    let lastActivityAt: Date | undefined;
+
+    const track = (work: Promise<void>) => {
+        lastActivityAt = new Date();
+        const tracked = work.catch((err) => logger.error(`[RPC] error replying in ${queue.name}: ${err}`));
+        inFlight.add(tracked);
+        const done = () => {
+            inFlight.delete(tracked);
+        };
+        tracked.then(done, done);
+    };
+
+    const healthChecker = createHealthChecker(
+        queue.name,
+        (onChannelError: ChannelErrorCallback) =>
+            doCreateRpcServer(brokerUrl, queue, handler, track, onChannelError, options),
+        options.reconnectionPolicy
+    );
+
+    // Stops consuming and waits for the requests being handled, up to timeoutMs, before closing the channel.
+    const close = async (closeOptions: types.ICloseOptions = {}) => {
+        unregister();
+        const timeoutMs = closeOptions.timeoutMs ?? types.DEFAULT_CLOSE_TIMEOUT_MS;
+
+        await healthChecker.close(async (server) => {
+            await server.stopConsuming();
+            if (!(await waitWithTimeout(Promise.all(Array.from(inFlight)), timeoutMs))) {
+                logger.error(`[RPC] closing ${queue.name} with ${inFlight.size} requests still being handled`);
+            }
+        });
+    };
+
+    const status = (): types.IEndpointStatus => ({
+        name: queue.name,
+        ...healthChecker.status(),
+        lastActivityAt,
+        buffered: inFlight.size,
+    });
+
+    const unregister = registerEndpoint({ name: queue.name, close, status });
+
+    return {
+        close,
+        status,
+    };
+};
@@ -1,24 +1,49 @@
 import { logger } from '@bisect/bisect-core-ts';
 import * as types from './types';
-import { setupChannel } from './common';
+import { Options } from 'amqplib';
+import { ITransportChannel } from './transport';
+import { setupChannel, setupConfirmChannel, waitWithTimeout, ChannelErrorCallback } from './common';
+import { registerEndpoint } from './shutdown';
+import { createBackoffTimer, defaultReconnectionPolicy } from './reconnect';
+import { IPendingBuffer, createMemoryBuffer } from './buffer';
+import { openOutbox, IJournalCodec } from './outbox';
+import { mqMetrics } from './metrics';
+import { toPublishOptions } from './envelope';
+import { jsonCodec } from './codec';
+import { DEFAULT_DELAY_RESOLUTION_MS, createQueueStager, createExchangeStager, deliveryDelayMs } from './delay';
+import { injectTraceHeaders } from './trace';
+import { withClaimCheck } from './claimCheck';
 
 interface IQueuePipe {
     type: 'queue';
-    send: (m: types.AnyQueueMessage) => void;
+    send: (m: types.AnyQueueMessage, content: Buffer) => Promise<void>;
     close: () => void;
 }
 
 interface IExchangePipe {
     type: 'exchange';
-    send: (m: types.ExchangeMessage) => void;
+    send: (m: types.ExchangeMessage, content: Buffer) => Promise<void>;
     close: () => void;
 }
 
 type TargetTypes = types.IQueueInfo | types.IExchangeInfo;
-type PipeCreator<TargetType, PipeType> = (brokerUrl: string, queue: TargetType) => Promise<PipeType>;
+type PipeCreator<TargetType, PipeType> = (
+    brokerUrl: types.BrokerAddress,
+    queue: TargetType,
+    options: types.ISenderOptions,
+    onChannelError: ChannelErrorCallback
+) => Promise<PipeType>;
 
 type GenericSenderType<MessageType> = {
-    send: (m: MessageType) => void;
+    send: (m: MessageType, content: Buffer) => Promise<void>;
+    close: () => void;
+};
+
+type PublishFunction = (exchange: string, key: string, content: Buffer, options?: Options.Publish) => Promise<void>;
+
+type Publisher = {
+    channel: ITransportChannel;
+    publish: PublishFunction;
     close: () => void;
 };
 
@@ -29,17 +54,78 @@ const isErrnoExceptionWithMessage = (e: unknown): e is NodeJS.ErrnoException =>
     return true;
 };
 
-const createQueuePipe = async (brokerUrl: string, queue: types.IQueueInfo): Promise<IQueuePipe> => {
-    const { channel, close } = await setupChannel(brokerUrl);
+/*
+    Without confirms, publish resolves as soon as the message is written to the channel.
+    With confirms, publish resolves when the broker acks the message and rejects if it nacks it or the channel closes.
+*/
+const createChannelPublisher = async (
+    brokerUrl: types.BrokerAddress,
+    options: types.ISenderOptions,
+    onChannelError: ChannelErrorCallback
+): Promise<Publisher> => {
+    if (!options.confirm) {
+        const { channel, close } = await setupChannel(brokerUrl, onChannelError, options);
+
+        const publish: PublishFunction = async (exchange, key, content, publishOptions) => {
+            channel.publish(exchange, key, content, publishOptions);
+        };
+
+        return { channel, publish, close };
+    }
+
+    const { channel, close } = await setupConfirmChannel(brokerUrl, onChannelError, options);
+
+    const publish: PublishFunction = (exchange, key, content, publishOptions) =>
+        new Promise((resolve, reject) => {
+            channel.publish(exchange, key, content, publishOptions, (err: any) => {
+                if (err) {
+                    reject(err instanceof Error ? err : new Error(`${err}`));
+                } else {
+                    resolve();
+                }
+            });
+        });
+
+    return { channel, publish, close };
+};
+
+const createPublisher = async (
+    brokerUrl: types.BrokerAddress,
+    options: types.ISenderOptions,
+    onChannelError: ChannelErrorCallback
+): Promise<Publisher> => {
+    const publisher = await createChannelPublisher(brokerUrl, options, onChannelError);
+    if (!options.claimCheck) {
+        return publisher;
+    }
+    return { ...publisher, publish: withClaimCheck(publisher.publish, options.claimCheck) };
+};
+
+const createQueuePipe = async (
+    brokerUrl: types.BrokerAddress,
+    queue: types.IQueueInfo,
+    options: types.ISenderOptions,
+    onChannelError: ChannelErrorCallback
+): Promise<IQueuePipe> => {
+    const { channel, publish, close } = await createPublisher(brokerUrl, options, onChannelError);
+    const contentType = (options.codec || jsonCodec).contentType;
+    const stage = createQueueStager(channel, queue, options.delayResolutionMs ?? DEFAULT_DELAY_RESOLUTION_MS);
 
     await channel.assertQueue(queue.name, queue.options);
 
-    const send = (m: types.AnyQueueMessage) => {
-        const { msg, persistent, expirationMs } = m;
+    const send = async (m: types.AnyQueueMessage, content: Buffer) => {
+        const { persistent, expirationMs } = m;
+        const delayMs = deliveryDelayMs(m);
+
+        // Publishing to the default exchange with the queue name as key is the same as sendToQueue.
+        const route = delayMs > 0 ? await stage(delayMs, queue.name) : { exchange: '', routingKey: queue.name };
 
-        channel.sendToQueue(queue.name, Buffer.from(JSON.stringify(msg)), {
+        // The broker removes the expiration of dead-lettered messages, so delayed messages would lose it anyway.
+        await publish(route.exchange, route.routingKey, content, {
+            ...toPublishOptions(m),
+            contentType: m.contentType || contentType,
             persistent: persistent,
-            expiration: expirationMs,
+            expiration: delayMs > 0 ? undefined : expirationMs,
         });
     };
 
@@ -50,14 +136,26 @@ const createQueuePipe = async (brokerUrl: string, queue: types.IQueueInfo): Prom
     };
 };
 
-const createExchangePipe = async (brokerUrl: string, exchange: types.IExchangeInfo): Promise<IExchangePipe> => {
-    const { channel, close } = await setupChannel(brokerUrl);
+const createExchangePipe = async (
+    brokerUrl: types.BrokerAddress,
+    exchange: types.IExchangeInfo,
+    options: types.ISenderOptions,
+    onChannelError: ChannelErrorCallback
+): Promise<IExchangePipe> => {
+    const { channel, publish, close } = await createPublisher(brokerUrl, options, onChannelError);
+    const contentType = (options.codec || jsonCodec).contentType;
+    const stage = createExchangeStager(channel, exchange, options.delayResolutionMs ?? DEFAULT_DELAY_RESOLUTION_MS);
 
     channel.assertExchange(exchange.name, exchange.type, exchange.options);
 
-    const send = (m: types.ExchangeMessage): void => {
-        const { key, msg } = m;
-        channel.publish(exchange.name, key, Buffer.from(JSON.stringify(msg)));
+    const send = async (m: types.ExchangeMessage, content: Buffer): Promise<void> => {
+        const delayMs = deliveryDelayMs(m);
+        const route = delayMs > 0 ? await stage(delayMs, m.key) : { exchange: exchange.name, routingKey: m.key };
+
+        await publish(route.exchange, route.routingKey, content, {
+            ...toPublishOptions(m),
+            contentType: m.contentType || contentType,
+        });
     };
 
     return {
@@ -69,140 +167,520 @@ const createExchangePipe = async (brokerUrl: string, exchange: types.IExchangeIn
 
 class GenericSender<MessageType, SenderType extends GenericSenderType<MessageType>, TargetType> {
     private sender: SenderType | null = null;
-    constructor(private readonly pipeCreator: PipeCreator<TargetType, SenderType>) {}
-
-    public async send(brokerUrl: string, target: TargetType, content: MessageType): Promise<boolean> {
+    public lastError: { message: string; at: Date } | null = null;
+    constructor(
+        private readonly pipeCreator: PipeCreator<TargetType, SenderType>,
+        private readonly options: types.ISenderOptions,
+        private readonly encode: (content: MessageType) => Buffer
+    ) {}
+
+    public async send(brokerUrl: types.BrokerAddress, target: TargetType, content: MessageType): Promise<boolean> {
         try {
             if (!this.sender) {
-                this.sender = await this.pipeCreator(brokerUrl, target);
+                this.sender = await this.createPipe(brokerUrl, target);
             }
 
             if (this.sender) {
-                this.sender.send(content);
+                await this.sender.send(content, this.encode(content));
             }
 
             return true;
         } catch (err) {
             if (isErrnoExceptionWithMessage(err)) {
                 logger.error(`Error sending to target: ${err.message}`);
-
-                this.sender = null;
             } else {
                 logger.error(`Error sending to target: ${err}`);
-
-                this.sender = null;
             }
+            this.lastError = { message: err instanceof Error ? err.message : `${err}`, at: new Date() };
+
+            // The channel may still be open, as after a nack or an encoding error, so it is closed with the pipe.
+            const failed = this.sender;
+            this.sender = null;
+            failed?.close();
         }
 
         return false;
     }
 
+    // The pipe is dropped as soon as its channel fails, so that the next send opens a new one.
+    private async createPipe(brokerUrl: types.BrokerAddress, target: TargetType): Promise<SenderType> {
+        let pipe: SenderType | null = null;
+        const onChannelError = (reason?: string) => {
+            this.lastError = { message: reason || 'Channel error', at: new Date() };
+            if (pipe && this.sender === pipe) {
+                this.sender = null;
+                // Closed once the connection has emitted all its events, as closing removes the listeners.
+                const dead = pipe;
+                setImmediate(() => dead.close());
+            }
+        };
+
+        pipe = await this.pipeCreator(brokerUrl, target, this.options, onChannelError);
+        return pipe;
+    }
+
+    public isConnected() {
+        return this.sender !== null;
+    }
+
     public close() {
         this.sender?.close();
     }
 }
 
 function createGenericSender<
-    MessageType,
+    MessageType extends types.IMessageProperties & { msg: any },
     SenderType extends GenericSenderType<MessageType>,
     TargetType extends TargetTypes
->(pipeCreator: PipeCreator<TargetType, SenderType>, brokerUrl: string, target: TargetType) {
-    const sender = new GenericSender<MessageType, SenderType, TargetType>(pipeCreator);
-    const outputQueue: MessageType[] = [];
+>(
+    pipeCreator: PipeCreator<TargetType, SenderType>,
+    brokerUrl: types.BrokerAddress,
+    target: TargetType,
+    options: types.ISenderOptions
+) {
+    const codec = options.codec || jsonCodec;
+
+    // Messages are encoded by send, so that encoding errors reach the caller, and the content is kept until they
+    // are sent.
+    const encoded = new WeakMap<MessageType, Buffer>();
+    const encode = (content: MessageType) => encoded.get(content) || codec.encode(content.msg);
+
+    const decodeOrUndefined = (bytes: Buffer) => {
+        try {
+            return codec.decode(bytes);
+        } catch (err) {
+            return undefined;
+        }
+    };
+
+    /*
+        The outbox keeps the encoded content, in base64, so that replayed messages are sent as they were encoded.
+        Their msg is decoded again, for onDropped. Entries written with their msg only are encoded again.
+    */
+    const journalCodec: IJournalCodec<MessageType> = {
+        toJournal: (content: MessageType) => ({
+            ...content,
+            msg: undefined,
+            content: encode(content).toString('base64'),
+        }),
+        fromJournal: (stored: any) => {
+            if (typeof stored.content !== 'string') {
+                return stored;
+            }
+
+            const { content, ...properties } = stored;
+            const bytes = Buffer.from(content, 'base64');
+            const message = { ...properties, msg: decodeOrUndefined(bytes) } as MessageType;
+            encoded.set(message, bytes);
+            return message;
+        },
+    };
+
+    const sender = new GenericSender<MessageType, SenderType, TargetType>(pipeCreator, options, encode);
     const isDurable: boolean = target.options?.durable === true;
 
-    const retrySend = async () => {
-        logger.info(`Retrying to send. Output queue size: ${outputQueue.length}`);
+    const overflow: types.IOverflowOptions = options.overflow || {};
+    const overflowPolicy: types.OverflowPolicy = overflow.policy || 'reject';
 
-        while (outputQueue.length > 0) {
-            const content = outputQueue.shift();
+    const createBuffer = () =>
+        createMemoryBuffer<MessageType>(
+            overflow.maxMessages ?? types.MAX_OUTSTANDING_MESSAGES,
+            overflow.maxBytes ?? Number.POSITIVE_INFINITY,
+            (content: MessageType) => encode(content).length
+        );
 
-            if (content) {
-                if (!(await sender.send(brokerUrl, target, content))) {
-                    outputQueue.unshift(content);
-                    return;
-                }
+    // Set once the outbox is open. Messages in the outbox are kept when the reconnection policy gives up.
+    let inOutbox = false;
+
+    const openBuffer = async (): Promise<IPendingBuffer<MessageType>> => {
+        if (!isDurable || !options.outbox) {
+            return createBuffer();
+        }
+
+        try {
+            const outbox = await openOutbox<MessageType>(options.outbox, target.name, journalCodec);
+            inOutbox = true;
+            return outbox;
+        } catch (err) {
+            logger.error(`Error opening outbox for ${target.name}. Buffering in memory: ${err}`);
+            return createBuffer();
+        }
+    };
+
+    const labels = { endpoint: target.name };
+    let buffered = 0;
+    let lastActivityAt: Date | undefined;
+    let gaveUp = false;
+
+    // Keeps the buffered gauge up to date.
+    const instrumentBuffer = (buffer: IPendingBuffer<MessageType>): IPendingBuffer<MessageType> => {
+        const update = () => {
+            buffered = buffer.size();
+            mqMetrics.buffered.set(labels, buffered);
+        };
+        const updateAfter = async (operation: Promise<void>) => {
+            try {
+                await operation;
+            } finally {
+                update();
+            }
+        };
+
+        update();
+        return {
+            ...buffer,
+            push: (content: MessageType) => updateAfter(buffer.push(content)),
+            shift: () => updateAfter(buffer.shift()),
+            clear: () => updateAfter(buffer.clear()),
+        };
+    };
+
+    const outputQueueReady = openBuffer().then(instrumentBuffer);
+    let closed = false;
+    // Set once close stops waiting for the buffer to drain. Sends blocked until then are still buffered.
+    let stopped = false;
+
+    const notifyDropped = (content: MessageType, reason: types.DropReason) => {
+        mqMetrics.dropped.inc({ ...labels, reason });
+        logger.error(`Error sending message to ${target.name}. Discarded (${reason}).`);
+        if (overflow.onDropped) {
+            try {
+                overflow.onDropped(content, reason);
+            } catch (err) {
+                logger.error(`Error in dropped message callback: ${err}`);
             }
         }
+    };
 
-        stopRetryTimer();
+    // Senders blocked by the 'block' overflow policy, waiting for room in the buffer.
+    let roomWaiters: (() => void)[] = [];
+    const notifyRoom = () => {
+        const waiters = roomWaiters;
+        roomWaiters = [];
+        waiters.forEach((resolve) => resolve());
+    };
+    const waitForRoom = () => new Promise<void>((resolve) => roomWaiters.push(resolve));
+
+    // Removes the head of the buffer, unless it was dropped while it was being sent.
+    const shiftIfHead = async (outputQueue: IPendingBuffer<MessageType>, content: MessageType) => {
+        if (outputQueue.peek() === content) {
+            await outputQueue.shift();
+            notifyRoom();
+        }
     };
 
-    let retryTimerId: NodeJS.Timeout | null = null;
-    const retryInterval = 1000;
+    const trySend = async (content: MessageType): Promise<boolean> => {
+        const sent = await sender.send(brokerUrl, target, content);
+        (sent ? mqMetrics.sent : mqMetrics.sendFailures).inc(labels);
+        if (sent) {
+            lastActivityAt = new Date();
+            gaveUp = false;
+        }
+        return sent;
+    };
+
+    const retrySend = async (): Promise<boolean> => {
+        const outputQueue = await outputQueueReady;
+        logger.info(`Retrying to send. Output queue size: ${outputQueue.size()}`);
+
+        while (outputQueue.size() > 0) {
+            const content = outputQueue.peek() as MessageType;
+
+            if (!(await trySend(content))) {
+                return false;
+            }
+
+            await shiftIfHead(outputQueue, content);
+        }
+
+        return true;
+    };
+
+    /*
+        Messages in the outbox stay there, to be sent by the next send or when the outbox is opened again.
+        Messages buffered in memory are discarded.
+    */
+    const onGaveUp = async () => {
+        gaveUp = true;
+        const outputQueue = await outputQueueReady;
+        if (inOutbox) {
+            logger.error(`Error sending messages. Keeping ${outputQueue.size()} messages in the outbox.`);
+            notifyRoom();
+            return;
+        }
+
+        logger.error(`Error sending messages. Discarding ${outputQueue.size()} buffered messages.`);
+        try {
+            while (outputQueue.size() > 0) {
+                const content = outputQueue.peek() as MessageType;
+                await outputQueue.shift();
+                notifyDropped(content, 'gave-up');
+            }
+        } catch (err) {
+            logger.error(`Error clearing output queue: ${err}`);
+        }
+        notifyRoom();
+    };
+
+    const retryTimer = createBackoffTimer(
+        options.reconnectionPolicy || defaultReconnectionPolicy,
+        target.name,
+        retrySend,
+        onGaveUp
+    );
 
     const startRetryTimer = () => {
-        if (retryTimerId !== null) {
+        if (retryTimer.isActive()) {
             return;
         }
 
         logger.info('Starting retry timer');
 
-        retryTimerId = setInterval(retrySend, retryInterval);
+        retryTimer.start();
     };
 
     const stopRetryTimer = () => {
-        if (retryTimerId === null) {
+        if (!retryTimer.isActive()) {
             return;
         }
 
         logger.info('Stopping retry timer');
 
-        clearInterval(retryTimerId);
-        retryTimerId = null;
+        retryTimer.stop();
     };
 
-    const isQueueFull = () => {
-        return outputQueue.length > types.MAX_OUTSTANDING_MESSAGES;
-    };
-
-    const send = async (content: MessageType) => {
-        if (outputQueue.length > 0) {
-            if (isQueueFull()) {
-                const message = 'Error sending message. Discarded.';
+    // Messages replayed from the outbox are sent before any new message.
+    outputQueueReady.then((outputQueue) => {
+        if (outputQueue.size() > 0) {
+            startRetryTimer();
+        }
+    });
+
+    // Adds the message to the buffer, applying the overflow policy if there is no room for it.
+    const bufferMessage = async (outputQueue: IPendingBuffer<MessageType>, content: MessageType) => {
+        while (!outputQueue.hasRoomFor(content)) {
+            // A message that does not fit even in an empty buffer can only be dropped or rejected.
+            const tooLarge = outputQueue.size() === 0 && overflowPolicy !== 'drop-newest';
+            if (tooLarge || overflowPolicy === 'reject') {
+                const message = 'Error sending message. Output queue full.';
                 logger.error(message);
                 throw new Error(message);
-            } else {
-                outputQueue.push(content);
             }
+
+            switch (overflowPolicy) {
+                case 'drop-newest':
+                    notifyDropped(content, 'overflow');
+                    return;
+
+                case 'drop-oldest':
+                    {
+                        const oldest = outputQueue.peek() as MessageType;
+                        await outputQueue.shift();
+                        notifyDropped(oldest, 'overflow');
+                    }
+                    break;
+
+                case 'block':
+                    await waitForRoom();
+                    if (stopped) {
+                        throw new Error('Error sending message. Sender closed.');
+                    }
+                    // Nothing frees room in an outbox kept after giving up, until the next send retries.
+                    if (gaveUp && !outputQueue.hasRoomFor(content)) {
+                        throw new Error('Error sending message. Output queue full.');
+                    }
+                    break;
+            }
+        }
+
+        await outputQueue.push(content);
+        startRetryTimer();
+    };
+
+    const doSend = async (content: MessageType) => {
+        const outputQueue = await outputQueueReady;
+
+        if (outputQueue.size() > 0) {
+            await bufferMessage(outputQueue, content);
             return;
         }
 
-        if (await sender.send(brokerUrl, target, content)) {
+        if (await trySend(content)) {
             return;
         }
 
         // Failed to send. Try to save the message, if required
-        if (isDurable && !isQueueFull()) {
-            outputQueue.push(content);
-            logger.error('Error sending message. Saving in memory.');
-
-            startRetryTimer();
+        if (isDurable) {
+            logger.error(`Error sending message. Saving in ${options.outbox ? 'outbox' : 'memory'}.`);
+            await bufferMessage(outputQueue, content);
+        } else if (options.confirm || overflow.policy === 'reject') {
+            const message = `Error sending message: ${sender.lastError?.message || 'not confirmed by the broker'}`;
+            logger.error(message);
+            throw new Error(message);
         } else {
-            logger.error('Error sending message. Discarded.');
+            notifyDropped(content, 'not-durable');
+        }
+    };
+
+    const inFlightSends = new Set<Promise<void>>();
+
+    // The trace context is that of the caller, as messages may be published later, from the retry timer.
+    const withTraceHeaders = (content: MessageType): MessageType => {
+        const headers = injectTraceHeaders(content.headers);
+        return headers === content.headers ? content : { ...content, headers };
+    };
+
+    const send = (message: MessageType): Promise<void> => {
+        if (closed) {
+            return Promise.reject(new Error('Error sending message. Sender closed.'));
+        }
+
+        const content = withTraceHeaders(message);
+        try {
+            encoded.set(content, codec.encode(content.msg));
+        } catch (err) {
+            logger.error(`Error encoding message for ${target.name}: ${err}`);
+            return Promise.reject(err);
         }
+
+        const work = doSend(content);
+        inFlightSends.add(work);
+        const done = () => {
+            inFlightSends.delete(work);
+        };
+        work.then(done, done);
+        return work;
+    };
+
+    const flush = async () => {
+        await Promise.all(Array.from(inFlightSends).map((work) => work.catch(() => undefined)));
+
+        const outputQueue = await outputQueueReady;
+        while (outputQueue.size() > 0 && retryTimer.isActive()) {
+            await waitForRoom();
+        }
+    };
+
+    /*
+        Stops accepting messages and waits, up to timeoutMs, for the sends in progress and the buffered messages.
+        Messages still buffered after that are discarded, unless they are in an outbox.
+    */
+    const close = async (closeOptions: types.ICloseOptions = {}) => {
+        unregister();
+        closed = true;
+        const timeoutMs = closeOptions.timeoutMs ?? types.DEFAULT_CLOSE_TIMEOUT_MS;
+
+        if (!(await waitWithTimeout(flush(), timeoutMs))) {
+            const outputQueue = await outputQueueReady;
+            logger.error(`Closing ${target.name} with ${outputQueue.size()} messages not sent`);
+        }
+
+        stopped = true;
+        stopRetryTimer();
+        notifyRoom();
+        sender.close();
     };
 
+    const state = (): types.EndpointState => {
+        if (closed) {
+            return 'closed';
+        }
+        if (gaveUp) {
+            return 'failed';
+        }
+        if (retryTimer.isActive()) {
+            return 'connecting';
+        }
+        return sender.isConnected() ? 'connected' : 'idle';
+    };
+
+    const status = (): types.IEndpointStatus => ({
+        name: target.name,
+        state: state(),
+        lastError: sender.lastError?.message,
+        lastErrorAt: sender.lastError?.at,
+        lastActivityAt,
+        buffered,
+    });
+
+    const unregister = registerEndpoint({ name: target.name, close, status });
+
     return {
         send,
-        close: () => {
-            // TODO: close does not make sure that all messages are sent.
-            stopRetryTimer();
-            if (sender) {
-                sender.close();
-            }
-        },
+        close,
+        status,
     };
 }
 
-export const createExchangeSender = (brokerUrl: string, exchange: types.IExchangeInfo) =>
+export const createExchangeSender = (
+    brokerUrl: types.BrokerAddress,
+    exchange: types.IExchangeInfo,
+    options: types.ISenderOptions = {}
+) =>
     createGenericSender<types.ExchangeMessage, IExchangePipe, types.IExchangeInfo>(
         createExchangePipe,
         brokerUrl,
-        exchange
+        exchange,
+        options
     );
-export const createQueueSender = (brokerUrl: string, queue: types.IQueueInfo) =>
-    createGenericSender<types.AnyQueueMessage, IQueuePipe, types.IQueueInfo>(createQueuePipe, brokerUrl, queue);
+export const createQueueSender = (
+    brokerUrl: types.BrokerAddress,
+    queue: types.IQueueInfo,
+    options: types.ISenderOptions = {}
+) =>
+    createGenericSender<types.AnyQueueMessage, IQueuePipe, types.IQueueInfo>(
+        createQueuePipe,
+        brokerUrl,
+        queue,
+        options
+    );
+
+/*
+    Sends typed payloads to a channel. Payloads that the channel's validator does not accept are not sent:
+    send rejects.
+*/
+export function createChannelSender<Payload>(
+    brokerUrl: types.BrokerAddress,
+    channel: types.Channel<Payload>,
+    options: types.ISenderOptions = {}
+) {
+    const validate = (payload: Payload) => {
+        if (!channel.validate(payload)) {
+            const message = `Error sending message. Invalid payload for channel ${channel.name}.`;
+            logger.error(message);
+            throw new Error(message);
+        }
+    };
+
+    if (channel.type === 'queue') {
+        const sender = createQueueSender(brokerUrl, channel.queue, options);
+        const isDurable = channel.queue.options?.durable === true;
+
+        const send = async (payload: Payload, sendOptions: types.IChannelSendOptions = {}) => {
+            validate(payload);
+            const { key, persistent, ...properties } = sendOptions;
+            await sender.send({ ...properties, msg: payload, persistent: persistent ?? isDurable });
+        };
+
+        return { send, close: sender.close, status: sender.status };
+    }
+
+    const exchangeChannel = channel;
+    const sender = createExchangeSender(brokerUrl, exchangeChannel.exchange, options);
+
+    const routingKey = (payload: Payload) =>
+        typeof exchangeChannel.routingKey === 'function'
+            ? exchangeChannel.routingKey(payload)
+            : exchangeChannel.routingKey;
+
+    const send = async (payload: Payload, sendOptions: types.IChannelSendOptions = {}) => {
+        validate(payload);
+        const { key, persistent, expirationMs, ...properties } = sendOptions;
+        await sender.send({ ...properties, key: key ?? routingKey(payload), msg: payload });
+    };
+
+    return { send, close: sender.close, status: sender.status };
+}
 
 export const persistent = true;
 export const notPersistent = false;
@@ -0,0 +1,56 @@
+import { logger } from '@bisect/bisect-core-ts';
+import * as types from './types';
+
+export interface IClosableEndpoint {
+    readonly name: string;
+    close(options?: types.ICloseOptions): Promise<void>;
+    status(): types.IEndpointStatus;
+}
+
+const endpoints = new Set<IClosableEndpoint>();
+
+// Every sender and receiver registers itself when created and unregisters when closed.
+export const registerEndpoint = (endpoint: IClosableEndpoint) => {
+    endpoints.add(endpoint);
+    return () => {
+        endpoints.delete(endpoint);
+    };
+};
+
+export const registeredEndpoints = (): IClosableEndpoint[] => Array.from(endpoints);
+
+export async function closeAllEndpoints(options: types.ICloseOptions = {}): Promise<void> {
+    const all = registeredEndpoints();
+    logger.info(`Closing ${all.length} mq endpoints`);
+
+    await Promise.all(
+        all.map(async (endpoint) => {
+            try {
+                await endpoint.close(options);
+            } catch (err) {
+                logger.error(`Error closing ${endpoint.name}: ${err}`);
+            }
+        })
+    );
+}
+
+/*
+    Closes every registered endpoint when the process receives one of the signals, then exits, unless exit is false.
+*/
+export function installShutdownHandler(
+    options: types.ICloseOptions = {},
+    signals: NodeJS.Signals[] = ['SIGTERM'],
+    exit = true
+): () => void {
+    const onSignal = async (signal: NodeJS.Signals) => {
+        logger.info(`Received ${signal}. Closing mq endpoints.`);
+        await closeAllEndpoints(options);
+        if (exit) {
+            process.exit(0);
+        }
+    };
+
+    signals.forEach((signal) => process.once(signal, onSignal));
+
+    return () => signals.forEach((signal) => process.off(signal, onSignal));
+}
@@ -0,0 +1,157 @@
+import { readFileIfExists } from '../fs';
+import { ITransportChannel } from './transport';
+import * as types from './types';
+
+const exchangeTypes: types.ExchangeType[] = ['direct', 'topic', 'headers', 'fanout', 'match'];
+
+const isObject = (value: unknown): value is Record<string, any> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const invalid = (reason: string) => new Error(`Invalid topology: ${reason}`);
+
+function checkList(topology: Record<string, any>, field: string): any[] {
+    const list = topology[field];
+    if (list === undefined) {
+        return [];
+    }
+    if (!Array.isArray(list)) {
+        throw invalid(`${field} must be a list`);
+    }
+    list.forEach((item, index) => {
+        if (!isObject(item)) {
+            throw invalid(`${field}[${index}] must be an object`);
+        }
+    });
+    return list;
+}
+
+const checkName = (item: Record<string, any>, field: string, where: string) => {
+    if (typeof item[field] !== 'string' || item[field] === '') {
+        throw invalid(`${where}.${field} must be a non-empty string`);
+    }
+};
+
+// Throws if the topology is malformed. Bindings may refer to exchanges and queues declared elsewhere.
+export function validateTopology(topology: unknown): types.ITopology {
+    if (!isObject(topology)) {
+        throw invalid('must be an object');
+    }
+
+    const exchanges = checkList(topology, 'exchanges');
+    const queues = checkList(topology, 'queues');
+    const bindings = checkList(topology, 'bindings');
+
+    exchanges.forEach((exchange, index) => {
+        checkName(exchange, 'name', `exchanges[${index}]`);
+        if (!exchangeTypes.includes(exchange.type)) {
+            throw invalid(`exchanges[${index}].type must be one of ${exchangeTypes.join(', ')}`);
+        }
+    });
+    queues.forEach((queue, index) => checkName(queue, 'name', `queues[${index}]`));
+
+    bindings.forEach((binding, index) => {
+        const where = `bindings[${index}]`;
+        checkName(binding, 'source', where);
+        if (typeof binding.pattern !== 'string') {
+            throw invalid(`${where}.pattern must be a string`);
+        }
+        if ((binding.queue === undefined) === (binding.exchange === undefined)) {
+            throw invalid(`${where} must have either a queue or an exchange`);
+        }
+        ['queue', 'exchange']
+            .filter((field) => binding[field] !== undefined)
+            .forEach((field) => checkName(binding, field, where));
+    });
+
+    return topology as types.ITopology;
+}
+
+export async function loadTopology(path: string): Promise<types.ITopology> {
+    const content = await readFileIfExists(path);
+    if (content === null) {
+        throw new Error(`Topology file not found: ${path}`);
+    }
+
+    return validateTopology(JSON.parse(content));
+}
+
+/*
+    Asserting is idempotent: what exists with the same options is left as it is. An exchange or queue that exists
+    with different options makes the broker close the channel with an error.
+*/
+export async function assertTopology(channel: ITransportChannel, topology: types.ITopology): Promise<void> {
+    for (const exchange of topology.exchanges || []) {
+        await channel.assertExchange(exchange.name, exchange.type, exchange.options);
+    }
+
+    for (const queue of topology.queues || []) {
+        await channel.assertQueue(queue.name, queue.options);
+    }
+
+    for (const binding of topology.bindings || []) {
+        if (binding.queue !== undefined) {
+            await channel.bindQueue(binding.queue, binding.source, binding.pattern, binding.args);
+        } else if (binding.exchange !== undefined) {
+            await channel.bindExchange(binding.exchange, binding.source, binding.pattern, binding.args);
+        }
+    }
+}
+
+// JSON with sorted object keys, so that options written in a different order compare equal.
+const canonical = (value: any): string => {
+    if (Array.isArray(value)) {
+        return `[${value.map(canonical).join(',')}]`;
+    }
+    if (isObject(value)) {
+        const keys = Object.keys(value)
+            .filter((key) => value[key] !== undefined)
+            .sort();
+        return `{${keys.map((key) => `${JSON.stringify(key)}:${canonical(value[key])}`).join(',')}}`;
+    }
+    return JSON.stringify(value);
+};
+
+const describeBinding = (binding: types.ITopologyBinding) => {
+    const destination = binding.queue !== undefined ? `queue ${binding.queue}` : `exchange ${binding.exchange}`;
+    const args = binding.args ? ` ${canonical(binding.args)}` : '';
+    return `${binding.source} -> ${destination} (${binding.pattern})${args}`;
+};
+
+function diffItems<Item>(
+    kind: types.ITopologyDifference['kind'],
+    previous: Item[],
+    next: Item[],
+    nameOf: (item: Item) => string
+): types.ITopologyDifference[] {
+    const previousByName = new Map(previous.map((item) => [nameOf(item), canonical(item)] as [string, string]));
+    const nextByName = new Map(next.map((item) => [nameOf(item), canonical(item)] as [string, string]));
+    const differences: types.ITopologyDifference[] = [];
+
+    nextByName.forEach((definition, name) => {
+        const previousDefinition = previousByName.get(name);
+        if (previousDefinition === undefined) {
+            differences.push({ kind, name, change: 'added' });
+        } else if (previousDefinition !== definition) {
+            differences.push({ kind, name, change: 'changed' });
+        }
+    });
+
+    previousByName.forEach((_definition, name) => {
+        if (!nextByName.has(name)) {
+            differences.push({ kind, name, change: 'removed' });
+        }
+    });
+
+    return differences;
+}
+
+/*
+    Dry run: lists what asserting next would change compared with previous, without connecting to the broker.
+    Asserting never deletes anything, so removed items stay in the broker until deleted by hand, and changed
+    exchanges and queues must be deleted before they can be asserted with their new options.
+*/
+export const diffTopology = (previous: types.ITopology, next: types.ITopology): types.ITopologyDifference[] => [
+    ...diffItems('exchange', previous.exchanges || [], next.exchanges || [], (exchange) => exchange.name),
+    ...diffItems('queue', previous.queues || [], next.queues || [], (queue) => queue.name),
+    ...diffItems('binding', previous.bindings || [], next.bindings || [], describeBinding),
+];
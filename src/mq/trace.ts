@@ -0,0 +1,100 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomBytes } from 'crypto';
+import { logger } from '@bisect/bisect-core-ts';
+import * as types from './types';
+
+export const traceparentHeader = 'traceparent';
+export const tracestateHeader = 'tracestate';
+
+// version-traceId-parentId-flags, in lowercase hex. Version ff and all-zero ids are invalid.
+const traceparentFormat = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+const isZero = (hex: string) => /^0+$/.test(hex);
+
+export const parseTraceparent = (traceparent: unknown) => {
+    const match = typeof traceparent === 'string' ? traceparentFormat.exec(traceparent) : null;
+    if (!match || match[1] === 'ff' || isZero(match[2]) || isZero(match[3])) {
+        return undefined;
+    }
+
+    return { version: match[1], traceId: match[2], parentId: match[3], flags: match[4] };
+};
+
+// Starts a new trace, sampled.
+export const createTraceContext = (): types.ITraceContext => ({
+    traceparent: `00-${randomBytes(16).toString('hex')}-${randomBytes(8).toString('hex')}-01`,
+});
+
+// Keeps the context in async local storage, so that it follows the awaits and callbacks of the code that runs in it.
+export function createAsyncLocalPropagator(): types.ITracePropagator {
+    const storage = new AsyncLocalStorage<types.ITraceContext>();
+
+    return {
+        active: () => storage.getStore(),
+        run: <T>(context: types.ITraceContext | undefined, fn: () => T): T =>
+            context ? storage.run(context, fn) : storage.exit(fn),
+    };
+}
+
+let propagator: types.ITracePropagator = createAsyncLocalPropagator();
+
+export const setTracePropagator = (newPropagator: types.ITracePropagator) => {
+    propagator = newPropagator;
+};
+
+export const getTracePropagator = () => propagator;
+
+export const currentTraceContext = (): types.ITraceContext | undefined => propagator.active();
+
+// For log lines. Undefined outside of a trace.
+export const currentTraceId = (): string | undefined => parseTraceparent(currentTraceContext()?.traceparent)?.traceId;
+
+const withTraceId = (message: string) => {
+    const traceId = currentTraceId();
+    return traceId ? `[trace ${traceId}] ${message}` : message;
+};
+
+/*
+    Same as logger, with the trace id of the active context at the start of the lines logged in a trace.
+    Receivers and RPC servers run message handlers in the message's context, so handlers that log through
+    traceLogger get the id of the trace that sent the message.
+*/
+export const traceLogger = {
+    error: (message: string) => logger.error(withTraceId(message)),
+    info: (message: string) => logger.info(withTraceId(message)),
+};
+
+export const runWithTraceContext = <T>(context: types.ITraceContext | undefined, fn: () => T): T =>
+    propagator.run(context, fn);
+
+// Returns the headers with the active context added. Headers that already have a traceparent are kept as they are.
+export const injectTraceHeaders = (headers?: Record<string, any>): Record<string, any> | undefined => {
+    const context = currentTraceContext();
+    if (!context || (headers && headers[traceparentHeader] !== undefined)) {
+        return headers;
+    }
+
+    const traceHeaders: Record<string, any> = { [traceparentHeader]: context.traceparent };
+    if (context.tracestate) {
+        traceHeaders[tracestateHeader] = context.tracestate;
+    }
+    return { ...headers, ...traceHeaders };
+};
+
+// Undefined if the headers have no valid traceparent, in which case tracestate is ignored too, as the spec requires.
+export const extractTraceContext = (headers: Record<string, any> = {}): types.ITraceContext | undefined => {
+    const traceparent = headers[traceparentHeader];
+    if (!parseTraceparent(traceparent)) {
+        return undefined;
+    }
+
+    const tracestate = headers[tracestateHeader];
+    return typeof tracestate === 'string' && tracestate !== '' ? { traceparent, tracestate } : { traceparent };
+};
+
+/*
+    Runs fn in the trace context carried by the headers, or with none if they have none. Consumer callbacks run in
+    the context in which the connection was opened, which is not that of the message.
+*/
+export const runInMessageContext = <T>(headers: Record<string, any> | undefined, fn: () => T): T =>
+    runWithTraceContext(extractTraceContext(headers), fn);
@@ -0,0 +1,122 @@
+import amqp, { ConsumeMessage, GetMessage, Message, Options, Replies } from 'amqplib';
+import { URL } from 'url';
+import * as types from './types';
+
+/*
+    The subset of the amqplib API used by the mq module.
+    amqplib connections and channels implement it, and so does the in-memory broker in memoryBroker.ts.
+    Methods return PromiseLike because amqplib returns Bluebird promises.
+*/
+
+export type ConsumeCallback = (msg: ConsumeMessage | null) => void;
+export type ConfirmCallback = (err: any, ok: Replies.Empty) => void;
+
+interface IEventSource {
+    on(event: string, listener: (...args: any[]) => void): this;
+    off(event: string, listener: (...args: any[]) => void): this;
+}
+
+export interface ITransportChannel extends IEventSource {
+    close(): PromiseLike<void>;
+
+    assertQueue(queue: string, options?: Options.AssertQueue): PromiseLike<Replies.AssertQueue>;
+    checkQueue(queue: string): PromiseLike<Replies.AssertQueue>;
+    deleteQueue(queue: string, options?: Options.DeleteQueue): PromiseLike<Replies.DeleteQueue>;
+    purgeQueue(queue: string): PromiseLike<Replies.PurgeQueue>;
+    bindQueue(queue: string, source: string, pattern: string, args?: any): PromiseLike<Replies.Empty>;
+    unbindQueue(queue: string, source: string, pattern: string, args?: any): PromiseLike<Replies.Empty>;
+
+    assertExchange(
+        exchange: string,
+        type: string,
+        options?: Options.AssertExchange
+    ): PromiseLike<Replies.AssertExchange>;
+    checkExchange(exchange: string): PromiseLike<Replies.Empty>;
+    deleteExchange(exchange: string, options?: Options.DeleteExchange): PromiseLike<Replies.Empty>;
+    bindExchange(destination: string, source: string, pattern: string, args?: any): PromiseLike<Replies.Empty>;
+    unbindExchange(destination: string, source: string, pattern: string, args?: any): PromiseLike<Replies.Empty>;
+
+    publish(exchange: string, routingKey: string, content: Buffer, options?: Options.Publish): boolean;
+    sendToQueue(queue: string, content: Buffer, options?: Options.Publish): boolean;
+
+    consume(queue: string, onMessage: ConsumeCallback, options?: Options.Consume): PromiseLike<Replies.Consume>;
+    cancel(consumerTag: string): PromiseLike<Replies.Empty>;
+    get(queue: string, options?: Options.Get): PromiseLike<GetMessage | false>;
+
+    ack(message: Message, allUpTo?: boolean): void;
+    ackAll(): void;
+    nack(message: Message, allUpTo?: boolean, requeue?: boolean): void;
+    nackAll(requeue?: boolean): void;
+    reject(message: Message, requeue?: boolean): void;
+
+    prefetch(count: number, global?: boolean): PromiseLike<Replies.Empty>;
+}
+
+export interface IConfirmTransportChannel extends ITransportChannel {
+    publish(
+        exchange: string,
+        routingKey: string,
+        content: Buffer,
+        options?: Options.Publish,
+        callback?: ConfirmCallback
+    ): boolean;
+    sendToQueue(queue: string, content: Buffer, options?: Options.Publish, callback?: ConfirmCallback): boolean;
+}
+
+export interface ITransportConnection extends IEventSource {
+    createChannel(): PromiseLike<ITransportChannel>;
+    createConfirmChannel(): PromiseLike<IConfirmTransportChannel>;
+    close(): PromiseLike<void>;
+    setMaxListeners(n: number): this;
+}
+
+// Called with one host at a time. The options, if any, are those of the IConnectionOptions the host comes from.
+export interface ITransport {
+    connect(brokerUrl: string, options?: types.IConnectionOptions): PromiseLike<ITransportConnection>;
+}
+
+const numberParameter = (url: URL, name: string) => {
+    const value = url.searchParams.get(name);
+    return value === null ? undefined : parseInt(value, 10);
+};
+
+/*
+    The options override what the URL sets. amqplib does not read the query of URLs passed as objects,
+    and it unescapes the vhost itself.
+*/
+const toConnectOptions = (brokerUrl: string, options: types.IConnectionOptions): Options.Connect => {
+    const url = new URL(brokerUrl);
+    const vhost = url.pathname.substr(1);
+
+    return {
+        protocol: url.protocol.replace(/:$/, ''),
+        hostname: url.hostname,
+        port: url.port ? parseInt(url.port, 10) : undefined,
+        username: options.username ?? (url.username ? decodeURIComponent(url.username) : undefined),
+        password: options.password ?? (url.password ? decodeURIComponent(url.password) : undefined),
+        vhost: vhost === '' ? undefined : vhost,
+        heartbeat: options.heartbeatSec ?? numberParameter(url, 'heartbeat'),
+        frameMax: options.frameMax ?? numberParameter(url, 'frameMax'),
+    };
+};
+
+const toSocketOptions = (options: types.IConnectionOptions) => ({
+    ...options.tls,
+    clientProperties: options.connectionName ? { connection_name: options.connectionName } : undefined,
+});
+
+export const amqpTransport: ITransport = {
+    connect: (brokerUrl: string, options?: types.IConnectionOptions) =>
+        options
+            ? amqp.connect(toConnectOptions(brokerUrl, options), toSocketOptions(options))
+            : amqp.connect(brokerUrl),
+};
+
+let defaultTransport: ITransport = amqpTransport;
+
+// Used by the endpoints that do not set a transport in their options. E.g. tests can set the in-memory broker here.
+export const setDefaultTransport = (transport: ITransport) => {
+    defaultTransport = transport;
+};
+
+export const getDefaultTransport = (): ITransport => defaultTransport;